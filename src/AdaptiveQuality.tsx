@@ -0,0 +1,65 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { graphicsStore } from './graphics';
+
+const SAMPLE_TIME = 1; // 每次统计帧率的时长（秒）
+const DOWN_RATIO = 0.9; // 帧率低于目标的该比例视为偏低
+const UP_RATIO = 0.97; // 帧率达到目标的该比例视为达标
+const DOWN_SAMPLES = 2; // 连续偏低多少次降一档
+const MIN_UP_SAMPLES = 5; // 连续达标多少次升一档
+const MAX_UP_SAMPLES = 60;
+
+interface AdaptiveQualityProps {
+  targetFps: number;
+}
+
+// 自动画质：按帧率逐档降低或提高画质和渲染分辨率
+// 升档后很快又掉帧说明撑不住，下次升档需要更长时间的稳定帧率，避免来回切换
+const AdaptiveQuality = ({ targetFps }: AdaptiveQualityProps) => {
+  const sample = useRef({ time: 0, frames: 0 });
+  const streak = useRef(0); // 连续偏低（负数）或达标（正数）的统计次数
+  const upSamples = useRef(MIN_UP_SAMPLES);
+  const lastStep = useRef(0);
+  const settling = useRef(1); // 调整后跳过的统计次数（着色器编译、缓冲区重建会造成卡顿）
+
+  const step = (direction: 1 | -1) => {
+    streak.current = 0;
+    if (!graphicsStore.step(direction)) return;
+    lastStep.current = direction;
+    settling.current = 1;
+  };
+
+  useFrame((_, delta) => {
+    const current = sample.current;
+    current.time += delta;
+    current.frames++;
+    if (current.time < SAMPLE_TIME) return;
+
+    const fps = current.frames / current.time;
+    current.time = 0;
+    current.frames = 0;
+    if (settling.current > 0) {
+      settling.current--;
+      return;
+    }
+
+    if (fps < targetFps * DOWN_RATIO) {
+      streak.current = Math.min(streak.current, 0) - 1;
+    } else if (fps >= targetFps * UP_RATIO) {
+      streak.current = Math.max(streak.current, 0) + 1;
+    } else {
+      streak.current = 0;
+    }
+
+    if (streak.current <= -DOWN_SAMPLES) {
+      if (lastStep.current === 1) upSamples.current = Math.min(upSamples.current * 2, MAX_UP_SAMPLES);
+      step(-1);
+    } else if (streak.current >= upSamples.current) {
+      step(1);
+    }
+  });
+
+  return null;
+};
+
+export default AdaptiveQuality;
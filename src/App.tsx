@@ -1,18 +1,93 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls } from '@react-three/drei';
+import { Physics } from '@react-three/cannon';
+import type { Group } from 'three';
 import Player from './player';
 import GameScene from './GameScene';
+import Boss from './Boss';
+import ControlsPanel from './ControlsPanel';
+import EnemyWaves from './EnemyWaves';
+import Hud from './Hud';
+import DamageNumbers from './DamageNumbers';
+import ParticleEffects from './ParticleEffects';
+import PhaseOverlay from './PhaseOverlay';
+import TuningPanel from './TuningPanel';
+import GraphicsPanel from './GraphicsPanel';
+import AdaptiveQuality from './AdaptiveQuality';
+import PostEffects from './PostEffects';
+import CameraRig from './CameraRig';
+import LoadingScreen from './LoadingScreen';
+import { LEVEL_OPTIONS, getInitialLevelName, getKillY, getLevel } from './level';
+import { LevelColliders } from './levelColliders';
+import { createSeed, random } from './random';
+import { gameStore, useGameStore } from './gameStore';
+import { useTuning } from './tuning';
+import { QUALITY_PRESETS, useGraphics } from './graphics';
+import { CAMERA_MODE_LABELS, useCameraRig } from './cameraRig';
+import { assetStore } from './assets';
+
+const BOSS_MAX_HEALTH = 500;
+const PLAYER_MAX_HEALTH = 100;
 
 const App: React.FC = () => {
-  const [enableOrbitControls, setEnableOrbitControls] = useState(true);
+  const [isAiming, setIsAiming] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
+  const [mouseSensitivity, setMouseSensitivity] = useState(0.0025);
+  const [invertY, setInvertY] = useState(false);
+  
+  const playerRef = useRef<Group>(null);
+  const [bossDefeated, setBossDefeated] = useState(false);
+  const [levelName, setLevelName] = useState(getInitialLevelName);
+  const [seed, setSeed] = useState(random.seed); // 同一种子总是生成相同的世界
+  const [session, setSession] = useState(0); // 每局递增，作为 Canvas 的 key 以重建整个场景
+  const level = useMemo(() => getLevel(levelName, seed), [levelName, seed]);
+  const colliders = useMemo(() => new LevelColliders(level), [level]);
+  const phase = useGameStore((state) => state.phase);
+  const playerDead = useGameStore((state) => state.isDead);
+  const { lights } = useTuning();
+  const graphics = useGraphics();
+  const { mode: cameraMode } = useCameraRig();
+  const quality = QUALITY_PRESETS[graphics.quality];
+  const shadowMapSize = lights.shadowMapSize ?? quality.shadowMapSize;
   
-  // 处理玩家瞄准状态变化
-  const handleAimingChange = (isAiming: boolean) => {
-    setEnableOrbitControls(!isAiming);
+  // 重新开始：重置游戏状态并重建场景
+  const handleRestart = () => {
+    gameStore.reset('playing');
+    setBossDefeated(false);
+    setSession((prev) => prev + 1);
   };
-
+  
+  // 在开始菜单中切换关卡
+  const handleSelectLevel = (name: string) => {
+    gameStore.reset('menu');
+    setLevelName(name);
+    setBossDefeated(false);
+    setSession((prev) => prev + 1);
+  };
+  
+  // 换一个随机种子（场景重建后所有随机序列都来自新种子）
+  const handleNewSeed = () => {
+    const next = createSeed();
+    random.setSeed(next);
+    gameStore.reset('menu');
+    setSeed(next);
+    setBossDefeated(false);
+    setSession((prev) => prev + 1);
+  };
+  
+  // 启动时检查并预加载模型资源
+  useEffect(() => {
+    assetStore.load();
+  }, []);
+  
+  // 关卡和种子写入地址栏，复制链接即可分享同一个世界
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('level', levelName);
+    url.searchParams.set('seed', seed);
+    window.history.replaceState(null, '', url);
+  }, [levelName, seed]);
+  
   return (
     <div style={{ 
       width: '100vw', 
@@ -21,8 +96,12 @@ const App: React.FC = () => {
       background: 'linear-gradient(135deg, #1a1a2e, #16213e)',
       overflow: 'hidden'
     }}>
+      {/* 画布的抗锯齿只在创建时生效，开启泛光时由合成器的多重采样抗锯齿 */}
       <Canvas
+        key={session}
         shadows
+        dpr={Math.min(window.devicePixelRatio, quality.dpr) * graphics.resolutionScale}
+        gl={{ antialias: quality.msaaSamples > 0 }}
         camera={{
           position: [0, 5, 15],
           fov: 75,
@@ -30,30 +109,73 @@ const App: React.FC = () => {
           far: 1000
         }}
       >
-        <ambientLight intensity={0.6} />
+        <ambientLight intensity={lights.ambientIntensity} />
+        {/* 阴影贴图尺寸变化时重新创建光源以重建贴图 */}
         <directionalLight
+          key={shadowMapSize}
           position={[10, 20, 15]}
-          intensity={0.8}
-          castShadow
-          shadow-mapSize-width={1024}
-          shadow-mapSize-height={1024}
+          intensity={lights.directionalIntensity}
+          castShadow={shadowMapSize > 0}
+          shadow-mapSize-width={shadowMapSize}
+          shadow-mapSize-height={shadowMapSize}
         />
         
-        {/* 粒子场景 */}
-        <GameScene />
+        {/* 自动画质 */}
+        {graphics.auto && <AdaptiveQuality targetFps={graphics.targetFps} />}
         
-        {/* 玩家角色 */}
-        <Player 
-          position={[0, 0, 0]}
-          onAimingChange={handleAimingChange}
-        />
+        {/* 物理世界（默认无摩擦，角色撞墙时沿墙滑动；非游戏阶段暂停） */}
+        <Physics
+          gravity={[0, -25, 0]}
+          defaultContactMaterial={{ friction: 0, restitution: 0 }}
+          isPaused={phase !== 'playing'}
+        >
+          {/* 粒子场景 */}
+          <GameScene level={level} />
+          
+          {/* 敌人波次 */}
+          <EnemyWaves
+            level={level}
+            targetRef={playerRef}
+          />
+          
+          {/* Boss（关卡设置了出生点时出现） */}
+          {level.spawnPoints.boss && !bossDefeated && (
+            <Boss
+              position={level.spawnPoints.boss}
+              level={level}
+              maxHealth={BOSS_MAX_HEALTH}
+              armor={25}
+              targetRef={playerRef}
+              onDeath={() => setBossDefeated(true)}
+            />
+          )}
+          
+          {/* 玩家角色 */}
+          <Player 
+            ref={playerRef}
+            position={level.spawnPoints.player}
+            onAimingChange={setIsAiming}
+            mouseSensitivity={mouseSensitivity}
+            invertY={invertY}
+            maxHealth={PLAYER_MAX_HEALTH}
+            colliders={colliders}
+            hazards={level.hazards}
+            pickups={level.pickups}
+            killY={getKillY(level)}
+          />
+        </Physics>
         
-        {/* 轨道控制器 */}
-        <OrbitControls
-          enableDamping
-          dampingFactor={0.05}
-          enabled={enableOrbitControls}
-        />
+        {/* 伤害数字 */}
+        <DamageNumbers />
+        
+        {/* 枪口火焰、命中火花和爆炸 */}
+        <ParticleEffects />
+        
+        {/* 后期处理（泛光、暗角、受击色差、瞄准景深、抗锯齿） */}
+        <PostEffects aiming={isAiming} colliders={colliders} />
+        
+        {/* 相机（越肩、第一人称、自由环绕、旁观飞行），在玩家之后更新以跟随本帧位置 */}
+        <CameraRig mouseSensitivity={mouseSensitivity} invertY={invertY} colliders={colliders} />
       </Canvas>
       
       {/* 控制说明 */}
@@ -68,16 +190,41 @@ const App: React.FC = () => {
           padding: '15px',
           color: 'white',
           zIndex: 100,
-          maxWidth: '300px'
+          maxWidth: '300px',
+          maxHeight: 'calc(100vh - 140px)',
+          overflowY: 'auto'
         }}>
           <h3 style={{ color: '#ffaa55', marginBottom: '10px' }}>控制说明</h3>
-          <p><strong>WASD</strong>: 移动角色</p>
-          <p><strong>鼠标右键</strong>: 瞄准</p>
-          <p><strong>鼠标左键</strong>: 射击</p>
+          <p><strong>点击画面</strong>: 锁定鼠标视角（Esc 释放）</p>
           <p><strong>鼠标移动</strong>: 环视场景</p>
-          <p><strong>滚轮</strong>: 缩放视角</p>
-          <p><strong>空格</strong>: 向上移动</p>
-          <p><strong>Shift</strong>: 向下移动</p>
+          <p><strong>`</strong>: 调试面板（粒子、光照、泛光）</p>
+          <p><strong>当前相机</strong>: {CAMERA_MODE_LABELS[cameraMode]}</p>
+          <ControlsPanel />
+          
+          {/* 鼠标设置 */}
+          <label style={{ display: 'block', marginTop: '10px' }}>
+            鼠标灵敏度: {(mouseSensitivity * 1000).toFixed(1)}
+            <input
+              type="range"
+              min={0.0005}
+              max={0.01}
+              step={0.0005}
+              value={mouseSensitivity}
+              onChange={(e) => setMouseSensitivity(Number(e.target.value))}
+              style={{ display: 'block', width: '100%' }}
+            />
+          </label>
+          <label style={{ display: 'block', marginTop: '5px' }}>
+            <input
+              type="checkbox"
+              checked={invertY}
+              onChange={(e) => setInvertY(e.target.checked)}
+            />
+            {' '}反转Y轴
+          </label>
+          
+          {/* 画质设置 */}
+          <GraphicsPanel />
           
           <button 
             onClick={() => setShowInstructions(false)}
@@ -114,6 +261,65 @@ const App: React.FC = () => {
         </p>
       </div>
       
+      {/* 胜利提示 */}
+      {bossDefeated && (
+        <div style={{
+          position: 'absolute',
+          top: '40%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(10, 15, 35, 0.8)',
+          border: '2px solid #ffaa55',
+          borderRadius: '10px',
+          padding: '20px 40px',
+          color: '#ffaa55',
+          fontSize: '28px',
+          zIndex: 100,
+          pointerEvents: 'none'
+        }}>
+          未知的敌人已被击败！
+        </div>
+      )}
+      
+      {/* HUD */}
+      {phase !== 'menu' && <Hud />}
+      
+      {/* 开始菜单 / 暂停 / 游戏结束 */}
+      <PhaseOverlay
+        onRestart={handleRestart}
+        levels={LEVEL_OPTIONS}
+        levelName={levelName}
+        onSelectLevel={handleSelectLevel}
+        seed={seed}
+        onNewSeed={handleNewSeed}
+      />
+      
+      {/* 资源加载进度（加载完成前遮住开始菜单） */}
+      <LoadingScreen />
+      
+      {/* 调试面板（` 键切换） */}
+      <TuningPanel emitters={level.emitters} />
+      
+      {/* 死亡提示 */}
+      {playerDead && phase === 'playing' && (
+        <div style={{
+          position: 'absolute',
+          top: '40%',
+          left: '50%',
+          transform: 'translate(-50%, -50%)',
+          background: 'rgba(35, 10, 15, 0.8)',
+          border: '2px solid #ff3366',
+          borderRadius: '10px',
+          padding: '20px 40px',
+          color: '#ff3366',
+          fontSize: '28px',
+          zIndex: 100,
+          pointerEvents: 'none'
+        }}>
+          你倒下了，即将在平台重生…
+        </div>
+      )}
+      
       {/* 显示/隐藏说明按钮 */}
       {!showInstructions && (
         <button 
@@ -0,0 +1,60 @@
+import { Component, Suspense, useMemo } from 'react';
+import type { ReactNode } from 'react';
+import { useGLTF } from '@react-three/drei';
+import { clone } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import type { Object3D } from 'three';
+import { MODEL_URLS, useAssets } from './assets';
+import type { ModelId } from './assets';
+
+interface AssetModelProps {
+  id: ModelId;
+  fallback: ReactNode; // 模型不存在、加载中或加载失败时显示的内置模型
+  children?: (root: Object3D) => ReactNode; // 模型就绪后挂到其节点上的内容（通过 createPortal）
+}
+
+interface ModelBoundaryProps {
+  fallback: ReactNode;
+  children: ReactNode;
+}
+
+// 模型文件损坏等加载错误不影响整个场景，退回内置模型
+class ModelBoundary extends Component<ModelBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// 同一个模型可能同时出现多次（第三人称和第一人称的枪），每处使用独立的副本
+const GltfInstance = ({ url, children }: { url: string; children?: AssetModelProps['children'] }) => {
+  const { scene } = useGLTF(url);
+  const root = useMemo(() => clone(scene), [scene]);
+
+  return (
+    <>
+      <primitive object={root} />
+      {children?.(root)}
+    </>
+  );
+};
+
+// glTF 模型：资源存在时加载，否则显示内置的方块模型
+const AssetModel = ({ id, fallback, children }: AssetModelProps) => {
+  const { available } = useAssets();
+  if (!available[id]) return <>{fallback}</>;
+
+  return (
+    <ModelBoundary fallback={fallback}>
+      <Suspense fallback={fallback}>
+        <GltfInstance url={MODEL_URLS[id]}>{children}</GltfInstance>
+      </Suspense>
+    </ModelBoundary>
+  );
+};
+
+export default AssetModel;
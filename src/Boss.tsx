@@ -0,0 +1,412 @@
+import { useRef, useEffect, useMemo, useState } from 'react';
+import { Group, Mesh, Vector3, MathUtils, MeshStandardMaterial, Color } from 'three';
+import { Html } from '@react-three/drei';
+import { PLAYER_ID, damageRegistry, useDamageable } from './damage';
+import { ProjectilePool } from './projectilePool';
+import Projectiles from './Projectiles';
+import { gameStore } from './gameStore';
+import { PositionHistory, useFixedFrame } from './gameLoop';
+import { effectBus } from './effects';
+import { NavGrid } from './navGrid';
+import { getFootprints } from './level';
+import type { LevelData } from './level';
+import { Animator } from './animation';
+import { BOSS_CLIPS } from './animationClips';
+
+// Boss攻击阶段
+type BossPhase = 'idle' | 'charge' | 'volley' | 'enraged' | 'dying';
+
+interface BossProps {
+  id?: string; // 受击注册表中的目标ID
+  position?: [number, number, number];
+  level: LevelData; // 所在关卡，冲锋和逼近不会穿过建筑或离开地面
+  maxHealth: number; // 最大生命值
+  armor?: number; // 护甲值
+  targetRef?: React.RefObject<Group | null>; // 追踪目标（玩家）
+  targetId?: string; // 追踪目标在受击注册表中的ID
+  onDeath?: () => void; // 死亡动画结束回调
+}
+
+// 各阶段持续时间（秒）
+const PHASE_DURATION: Record<BossPhase, number> = {
+  idle: 2,
+  charge: 1.2,
+  volley: 2.4,
+  enraged: 6,
+  dying: 2.5
+};
+
+const BOSS_NAME = '未知的敌人';
+const ENRAGE_THRESHOLD = 0.3; // 低于30%生命值进入狂暴
+const ENGAGE_DISTANCE = 35; // 目标进入此距离或Boss受到攻击后视为交战
+const BOSS_RADIUS = 2.5; // 水平碰撞半径（含手臂）
+const HIT_FLASH_TIME = 0.15;
+const MAX_PROJECTILES = 1024;
+const PROJECTILE_COLOR = '#ff55ff';
+const PROJECTILE_DAMAGE = 8;
+const CHARGE_DAMAGE = 25;
+const CHARGE_HIT_RADIUS = 3; // 冲锋撞击判定半径（水平距离）
+
+const baseColor = new Color('#7a1f3d');
+const enragedColor = new Color('#ff2200');
+const flashColor = new Color('#ffffff');
+
+const Boss = ({
+  id = 'boss',
+  position = [0, -2, -25],
+  level,
+  maxHealth,
+  armor = 0,
+  targetRef,
+  targetId = PLAYER_ID,
+  onDeath
+}: BossProps) => {
+  const rootRef = useRef<Group>(null);
+  const bodyRef = useRef<Mesh>(null);
+  const leftArmRef = useRef<Mesh>(null);
+  const rightArmRef = useRef<Mesh>(null);
+
+  const [health, setHealth] = useState(maxHealth);
+  const [phase, setPhase] = useState<BossPhase>('idle');
+  const [engaged, setEngaged] = useState(false);
+  const [projectilePool] = useState(() => new ProjectilePool(MAX_PROJECTILES));
+
+  const phaseTime = useRef(0);
+  const nextAttack = useRef<'charge' | 'volley'>('charge');
+  const chargeDirection = useRef(new Vector3());
+  const volleyTimer = useRef(0);
+  const chargeHit = useRef(false); // 每次冲锋只造成一次撞击伤害
+  const hitFlash = useRef(0);
+  const previousHealth = useRef(health);
+  const deathNotified = useRef(false);
+  const [history] = useState(() => {
+    const initial = new PositionHistory();
+    initial.reset(new Vector3(...position));
+    return initial;
+  });
+  const [animator] = useState(() => new Animator(BOSS_CLIPS));
+
+  // 按建筑占地生成的可通行区域（外扩 Boss 半径），网格之外即地面边界
+  const navGrid = useMemo(() => new NavGrid({
+    size: level.ground.size,
+    cellSize: 1,
+    obstacles: getFootprints(level),
+    padding: BOSS_RADIUS
+  }), [level]);
+
+  // 所有部件共用一个材质，便于统一做受击闪烁
+  const material = useMemo(() => new MeshStandardMaterial({
+    color: baseColor,
+    emissive: baseColor,
+    emissiveIntensity: 0.3,
+    roughness: 0.5,
+    metalness: 0.4
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  // 注册为可受击目标，子弹命中时同步生命值
+  useDamageable(bodyRef, {
+    id,
+    maxHealth,
+    armor,
+    team: 'enemy',
+    onHit: (event) => setHealth(event.remainingHealth)
+  });
+
+  // 生命值下降时触发受击闪烁，归零时进入死亡阶段
+  useEffect(() => {
+    if (health < previousHealth.current) {
+      hitFlash.current = HIT_FLASH_TIME;
+    }
+    previousHealth.current = health;
+
+    if (health <= 0 && phase !== 'dying') {
+      phaseTime.current = 0;
+      setPhase('dying');
+    }
+  }, [health, phase]);
+
+  // 交战后在HUD上显示Boss血条
+  useEffect(() => {
+    if (!engaged || phase === 'dying') {
+      gameStore.setBoss(null);
+      return;
+    }
+    gameStore.setBoss({
+      name: BOSS_NAME,
+      health,
+      maxHealth,
+      enraged: health / maxHealth < ENRAGE_THRESHOLD
+    });
+  }, [engaged, health, maxHealth, phase]);
+
+  useEffect(() => () => gameStore.setBoss(null), []);
+
+  const enterPhase = (next: BossPhase) => {
+    phaseTime.current = 0;
+    volleyTimer.current = 0;
+    chargeHit.current = false;
+    setPhase(next);
+  };
+
+  // 获取指向目标的水平方向
+  const getTargetDirection = (from: Vector3) => {
+    const direction = new Vector3(0, 0, 1);
+    if (targetRef?.current) {
+      direction.subVectors(targetRef.current.position, from);
+      direction.y = 0;
+    }
+    return direction.lengthSq() > 0 ? direction.normalize() : direction.set(0, 0, 1);
+  };
+
+  // 获取从 from 指向目标的方向（含俯仰，用于弹幕瞄准）
+  const getTargetAim = (from: Vector3) => {
+    if (!targetRef?.current) return getTargetDirection(from);
+    const direction = new Vector3().subVectors(targetRef.current.position, from);
+    return direction.lengthSq() > 0 ? direction.normalize() : getTargetDirection(from);
+  };
+
+  // 沿水平方向移动，前方被建筑或地面边界挡住时停下，返回是否移动成功
+  const moveTowards = (root: Group, direction: Vector3, distance: number) => {
+    const x = root.position.x + direction.x * distance;
+    const z = root.position.z + direction.z * distance;
+    if (!navGrid.isWalkable(x, z)) return false;
+    root.position.x = x;
+    root.position.z = z;
+    return true;
+  };
+
+  // 发射一轮弹幕
+  const fireVolley = (origin: Vector3, aim: Vector3, count: number, arc: number, speed: number) => {
+    for (let i = 0; i < count; i++) {
+      const angle = count > 1 ? -arc / 2 + (arc * i) / (count - 1) : 0;
+      projectilePool.spawn({
+        position: origin,
+        direction: aim.clone().applyAxisAngle(new Vector3(0, 1, 0), angle),
+        speed,
+        lifespan: 4,
+        damage: PROJECTILE_DAMAGE,
+        weapon: 'boss-volley',
+        color: PROJECTILE_COLOR
+      });
+    }
+  };
+
+  // 阶段、移动和弹幕按固定步长模拟：先恢复到最新一步的模拟位置，结束后记录
+  const simulate = (root: Group, delta: number) => {
+    phaseTime.current += delta;
+    const isEnraged = health > 0 && health / maxHealth < ENRAGE_THRESHOLD;
+
+    // 死亡动画：旋转、下沉并缩小
+    if (phase === 'dying') {
+      const progress = Math.min(1, phaseTime.current / PHASE_DURATION.dying);
+      root.rotation.y += delta * 6 * (1 - progress);
+      root.position.y = position[1] - progress * 3;
+      root.scale.setScalar(1 - progress * 0.8);
+
+      if (progress >= 1 && !deathNotified.current) {
+        deathNotified.current = true;
+        root.visible = false;
+        // Boss 倒下时连续爆炸
+        for (let i = 0; i < 4; i++) {
+          effectBus.spawn('explosion', root.position.clone().add(new Vector3(0, i * 1.2, 0)));
+        }
+        if (onDeath) onDeath();
+      }
+    } else {
+      const aim = getTargetDirection(root.position);
+
+      if (!engaged) {
+        const target = targetRef?.current;
+        const inRange = !!target && target.position.distanceTo(root.position) < ENGAGE_DISTANCE;
+        if (inRange || health < maxHealth) setEngaged(true);
+      }
+
+      // 面向目标
+      if (phase !== 'charge') {
+        root.rotation.y = MathUtils.lerp(root.rotation.y, Math.atan2(aim.x, aim.z), 0.1);
+      }
+
+      // 生命值低于阈值时强制进入狂暴
+      if (isEnraged && phase !== 'enraged' && phase !== 'charge') {
+        enterPhase('enraged');
+      } else if (phase === 'idle') {
+        if (phaseTime.current > PHASE_DURATION.idle) {
+          if (nextAttack.current === 'charge') {
+            chargeDirection.current.copy(aim);
+            enterPhase('charge');
+          } else {
+            enterPhase('volley');
+          }
+          nextAttack.current = nextAttack.current === 'charge' ? 'volley' : 'charge';
+        }
+      } else if (phase === 'charge') {
+        // 近战冲锋：沿锁定方向高速冲刺，撞到建筑或边界时提前结束
+        const speed = isEnraged ? 18 : 12;
+        const blocked = !moveTowards(root, chargeDirection.current, speed * delta);
+        root.rotation.y = Math.atan2(chargeDirection.current.x, chargeDirection.current.z);
+
+        // 撞到目标
+        const target = targetRef?.current;
+        if (target && !chargeHit.current) {
+          const distance = Math.hypot(target.position.x - root.position.x, target.position.z - root.position.z);
+          if (distance < CHARGE_HIT_RADIUS) {
+            chargeHit.current = true;
+            damageRegistry.applyDirectDamage(targetId, CHARGE_DAMAGE, 'boss-charge', root.position);
+          }
+        }
+
+        if (blocked || phaseTime.current > PHASE_DURATION.charge) {
+          enterPhase(isEnraged ? 'enraged' : 'idle');
+        }
+      } else if (phase === 'volley') {
+        // 弹幕：每0.6秒发射一轮扇形子弹
+        volleyTimer.current -= delta;
+        if (volleyTimer.current <= 0) {
+          volleyTimer.current = 0.6;
+          const origin = root.position.clone().add(new Vector3(0, 4.5, 0));
+          fireVolley(origin, getTargetAim(origin), 7, Math.PI / 3, 12);
+        }
+
+        if (phaseTime.current > PHASE_DURATION.volley) {
+          enterPhase('idle');
+        }
+      } else if (phase === 'enraged') {
+        // 狂暴：缓慢逼近并持续发射环形弹幕，间歇性冲锋
+        moveTowards(root, aim, 3 * delta);
+        volleyTimer.current -= delta;
+        if (volleyTimer.current <= 0) {
+          volleyTimer.current = 0.8;
+          const origin = root.position.clone().add(new Vector3(0, 4.5, 0));
+          fireVolley(origin, getTargetAim(origin), 16, Math.PI * 2 * (15 / 16), 15);
+        }
+
+        if (phaseTime.current > PHASE_DURATION.enraged) {
+          chargeDirection.current.copy(aim);
+          enterPhase('charge');
+        }
+      }
+    }
+
+    // 更新弹幕，命中玩家阵营的目标时结算伤害
+    projectilePool.update(delta, (projectile) => {
+      const hit = damageRegistry.hitTest(projectile.from, projectile.to, 'enemy');
+      if (!hit) return false;
+      damageRegistry.applyDamage(hit, projectile.damage, projectile.weapon);
+      return true;
+    });
+  };
+
+  useFixedFrame((_, dt) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    root.position.copy(history.current);
+    simulate(root, dt);
+    history.push(root.position);
+  }, ({ clock }, alpha, delta) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    // 渲染位置在最近两步之间插值
+    history.interpolate(alpha, root.position);
+
+    const time = clock.getElapsedTime();
+    const isEnraged = health > 0 && health / maxHealth < ENRAGE_THRESHOLD;
+
+    // 受击闪烁 / 狂暴发光
+    hitFlash.current = Math.max(0, hitFlash.current - delta);
+    if (hitFlash.current > 0) {
+      material.emissive.copy(flashColor);
+      material.emissiveIntensity = 1.5;
+    } else {
+      material.emissive.copy(isEnraged ? enragedColor : baseColor);
+      material.emissiveIntensity = isEnraged ? 0.8 + Math.sin(time * 10) * 0.3 : 0.3;
+    }
+
+    // 手臂动作
+    if (phase === 'dying') animator.play('death');
+    else if (phase === 'charge') animator.play('charge');
+    else animator.play(isEnraged ? 'enraged' : 'idle');
+    animator.update(delta);
+    animator.apply({ leftArm: leftArmRef.current, rightArm: rightArmRef.current });
+  });
+
+  const healthRatio = Math.max(0, health / maxHealth);
+
+  return (
+    <>
+      <group ref={rootRef} position={position}>
+        {/* 身体（子弹碰撞检测的主体） */}
+        <mesh ref={bodyRef} position={[0, 3, 0]} material={material} castShadow>
+          <boxGeometry args={[3, 2.5, 2]} />
+
+          {/* 头部 */}
+          <mesh position={[0, 1.85, 0]} material={material} castShadow>
+            <boxGeometry args={[1.6, 1.2, 1.6]} />
+            {/* 眼睛 */}
+            <mesh position={[-0.35, 0.1, 0.81]}>
+              <planeGeometry args={[0.3, 0.15]} />
+              <meshStandardMaterial color="#ffdd00" emissive="#ffaa00" emissiveIntensity={2} />
+            </mesh>
+            <mesh position={[0.35, 0.1, 0.81]}>
+              <planeGeometry args={[0.3, 0.15]} />
+              <meshStandardMaterial color="#ffdd00" emissive="#ffaa00" emissiveIntensity={2} />
+            </mesh>
+          </mesh>
+
+          {/* 手臂 */}
+          <mesh ref={leftArmRef} position={[-2, 0, 0]} material={material} castShadow>
+            <boxGeometry args={[0.9, 2.6, 0.9]} />
+          </mesh>
+          <mesh ref={rightArmRef} position={[2, 0, 0]} material={material} castShadow>
+            <boxGeometry args={[0.9, 2.6, 0.9]} />
+          </mesh>
+
+          {/* 腿部 */}
+          <mesh position={[-0.7, -2.25, 0]} material={material} castShadow>
+            <boxGeometry args={[1, 2, 1]} />
+          </mesh>
+          <mesh position={[0.7, -2.25, 0]} material={material} castShadow>
+            <boxGeometry args={[1, 2, 1]} />
+          </mesh>
+        </mesh>
+
+        {/* 头顶血条 */}
+        {phase !== 'dying' && (
+          <Html position={[0, 6.5, 0]} center>
+            <div style={{
+              width: '160px',
+              padding: '4px',
+              background: 'rgba(10, 15, 35, 0.7)',
+              border: '2px solid #ff3366',
+              borderRadius: '6px',
+              color: 'white',
+              fontSize: '12px',
+              textAlign: 'center',
+              pointerEvents: 'none'
+            }}>
+              <div style={{ marginBottom: '3px' }}>
+                {BOSS_NAME} {phase === 'enraged' ? '（狂暴）' : ''}
+              </div>
+              <div style={{ height: '8px', background: '#333', borderRadius: '4px' }}>
+                <div style={{
+                  width: `${healthRatio * 100}%`,
+                  height: '100%',
+                  background: healthRatio < ENRAGE_THRESHOLD ? '#ff2200' : '#ff3366',
+                  borderRadius: '4px'
+                }}></div>
+              </div>
+            </div>
+          </Html>
+        )}
+      </group>
+
+      {/* Boss弹幕 */}
+      <Projectiles pool={projectilePool} radius={0.25} stretch={1} />
+    </>
+  );
+};
+
+export default Boss;
@@ -0,0 +1,223 @@
+import { useEffect, useRef } from 'react';
+import { Euler, MathUtils, Quaternion, Vector3 } from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { cameraRig, isDetachedMode, useCameraRig } from './cameraRig';
+import type { CameraMode } from './cameraRig';
+import { actionForCode, useInputBindings } from './input';
+import { CROUCH_HEIGHT } from './playerController';
+import { gameStore } from './gameStore';
+import type { LevelColliders } from './levelColliders';
+
+interface CameraRigProps {
+  mouseSensitivity: number; // 脱离角色的模式下转动视角的灵敏度（弧度/像素）
+  invertY: boolean;
+  colliders: LevelColliders; // 越肩视角用关卡静态碰撞体检测遮挡
+}
+
+const TRANSITION_TIME = 0.3; // 模式切换的过渡时间（秒）
+const EYE_HEIGHT = 0.9; // 头部相对角色中心的高度
+const PIVOT_HEIGHT = 1.5; // 越肩视角的注视点高于角色中心的距离
+const SHOULDER_OFFSET = 0.8; // 越肩视角的横向偏移
+const FOLLOW_RATE = 10; // 越肩视角跟随角色的平滑速率（每秒）
+const MIN_ORBIT_PITCH = -1.2; // 越肩视角最大俯视角
+const MAX_ORBIT_PITCH = 0.35; // 越肩视角最大仰视角
+const CAMERA_RADIUS = 0.3; // 碰撞时与遮挡物保持的距离
+const MIN_COLLISION_DISTANCE = 0.5;
+const COLLISION_RECOVER_RATE = 4; // 遮挡消失后相机退回原距离的速率
+const FREE_PITCH_LIMIT = 1.5; // 自由环绕和旁观模式的俯仰限制
+const ORBIT_DISTANCE_RANGE: [number, number] = [2, 40];
+const SPECTATOR_SPEED = 12; // 旁观飞行速度（单位/秒）
+
+// 旁观飞行的移动方向：前后、左右、上下
+type FlyAction = 'moveForward' | 'moveBackward' | 'moveLeft' | 'moveRight' | 'jump' | 'crouch';
+const FLY_ACTIONS: string[] = ['moveForward', 'moveBackward', 'moveLeft', 'moveRight', 'jump', 'crouch'];
+
+const up = new Vector3(0, 1, 0);
+const back = new Vector3();
+const right = new Vector3();
+const direction = new Vector3();
+const desiredPosition = new Vector3();
+const desiredQuaternion = new Quaternion();
+const euler = new Euler(0, 0, 0, 'YXZ');
+
+// 相机朝向的反方向（相机在注视点后方时由注视点指向相机）
+const backFromAngles = (yaw: number, pitch: number, target: Vector3) =>
+  target.set(Math.sin(yaw) * Math.cos(pitch), -Math.sin(pitch), Math.cos(yaw) * Math.cos(pitch));
+
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+// 相机支架：按模式计算相机位置和朝向，模式之间平滑过渡
+// 越肩视角下有建筑挡在角色和相机之间时，相机被拉近到建筑前方
+const CameraRig = ({ mouseSensitivity, invertY, colliders }: CameraRigProps) => {
+  const { camera, gl } = useThree();
+  const { mode, shoulder, distance } = useCameraRig();
+  const bindings = useInputBindings();
+
+  const view = useRef<CameraMode | null>(null); // 当前实际使用的视角（瞄准时越肩视角切换为第一人称）
+  const transition = useRef(1);
+  const fromPosition = useRef(new Vector3());
+  const fromQuaternion = useRef(new Quaternion());
+  const pivot = useRef<Vector3 | null>(null); // 平滑跟随的越肩注视点
+  const collisionDistance = useRef(distance);
+
+  // 脱离角色的模式：自由环绕围绕进入时的角色位置，旁观模式自由飞行
+  const free = useRef({
+    yaw: 0,
+    pitch: 0,
+    orbitDistance: distance,
+    orbitPivot: new Vector3(),
+    flying: new Set<FlyAction>()
+  });
+
+  // 进入脱离模式时从当前视角开始
+  useEffect(() => {
+    if (!isDetachedMode(mode)) return;
+    const state = free.current;
+    const { target } = cameraRig;
+
+    euler.setFromQuaternion(camera.quaternion, 'YXZ');
+    state.yaw = euler.y;
+    state.pitch = MathUtils.clamp(euler.x, -FREE_PITCH_LIMIT, FREE_PITCH_LIMIT);
+    state.flying.clear();
+    if (mode === 'orbit') {
+      state.orbitPivot.copy(target.position).setY(target.position.y + PIVOT_HEIGHT);
+      state.orbitDistance = MathUtils.clamp(camera.position.distanceTo(state.orbitPivot), ...ORBIT_DISTANCE_RANGE);
+    }
+  }, [mode, camera]);
+
+  // 脱离模式的输入：鼠标转动视角，滚轮调整环绕距离，移动键飞行
+  useEffect(() => {
+    if (!isDetachedMode(mode)) return;
+    const state = free.current;
+    const canvas = gl.domElement;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      if (document.pointerLockElement !== canvas || !gameStore.isPlaying) return;
+      const pitchDirection = invertY ? 1 : -1;
+      state.yaw -= e.movementX * mouseSensitivity;
+      state.pitch = MathUtils.clamp(
+        state.pitch + e.movementY * mouseSensitivity * pitchDirection,
+        -FREE_PITCH_LIMIT,
+        FREE_PITCH_LIMIT
+      );
+    };
+
+    const handleWheel = (e: WheelEvent) => {
+      if (mode !== 'orbit' || e.deltaY === 0) return;
+      state.orbitDistance = MathUtils.clamp(state.orbitDistance * (e.deltaY > 0 ? 1.1 : 1 / 1.1), ...ORBIT_DISTANCE_RANGE);
+    };
+
+    const handleKey = (pressed: boolean) => (e: KeyboardEvent) => {
+      const action = actionForCode(bindings, e.code);
+      if (!action || !FLY_ACTIONS.includes(action)) return;
+      if (pressed && gameStore.isPlaying) state.flying.add(action as FlyAction);
+      else state.flying.delete(action as FlyAction);
+    };
+    const handleKeyDown = handleKey(true);
+    const handleKeyUp = handleKey(false);
+
+    canvas.addEventListener('mousemove', handleMouseMove);
+    canvas.addEventListener('wheel', handleWheel);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+
+    return () => {
+      canvas.removeEventListener('mousemove', handleMouseMove);
+      canvas.removeEventListener('wheel', handleWheel);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [mode, gl, bindings, mouseSensitivity, invertY]);
+
+  // 越肩视角：注视点在角色头顶上方并偏向一侧肩膀，被建筑遮挡时拉近
+  const shoulderPose = (delta: number, snap: boolean) => {
+    const { target } = cameraRig;
+    const pivotHeight = PIVOT_HEIGHT - (target.crouching ? CROUCH_HEIGHT / 2 : 0);
+    const goal = direction.copy(target.position).setY(target.position.y + pivotHeight);
+
+    if (!pivot.current || snap) pivot.current = goal.clone();
+    else pivot.current.lerp(goal, 1 - Math.exp(-FOLLOW_RATE * delta));
+
+    const pitch = MathUtils.clamp(target.pitch, MIN_ORBIT_PITCH, MAX_ORBIT_PITCH);
+    backFromAngles(target.yaw, pitch, back);
+    right.set(Math.cos(target.yaw), 0, -Math.sin(target.yaw));
+
+    // 沿肩膀方向和向后方向依次检测遮挡，取最近的距离
+    let lateral = SHOULDER_OFFSET;
+    const sideHit = colliders.raycast(pivot.current, direction.copy(right).multiplyScalar(shoulder), SHOULDER_OFFSET + CAMERA_RADIUS);
+    if (sideHit) lateral = Math.max(0, sideHit.distance - CAMERA_RADIUS);
+
+    const shoulderPoint = desiredPosition.copy(pivot.current).addScaledVector(right, lateral * shoulder);
+    const backHit = colliders.raycast(shoulderPoint, back, distance + CAMERA_RADIUS);
+    const allowed = backHit ? Math.max(MIN_COLLISION_DISTANCE, backHit.distance - CAMERA_RADIUS) : distance;
+
+    // 被遮挡时立即拉近，遮挡消失后平滑退回
+    collisionDistance.current = allowed < collisionDistance.current || snap
+      ? allowed
+      : MathUtils.damp(collisionDistance.current, allowed, COLLISION_RECOVER_RATE, delta);
+
+    desiredPosition.addScaledVector(back, collisionDistance.current);
+    desiredQuaternion.setFromEuler(euler.set(pitch, target.yaw, 0));
+  };
+
+  useFrame((_, delta) => {
+    const { target } = cameraRig;
+    const current: CameraMode = mode === 'shoulder' && target.aiming ? 'firstPerson' : mode;
+    const state = free.current;
+
+    // 视角变化时从当前相机位置开始过渡；首帧直接到位
+    const first = view.current === null;
+    if (current !== view.current) {
+      view.current = current;
+      transition.current = first ? 1 : 0;
+      fromPosition.current.copy(camera.position);
+      fromQuaternion.current.copy(camera.quaternion);
+    }
+
+    switch (current) {
+      case 'shoulder':
+        shoulderPose(delta, first);
+        break;
+      case 'firstPerson':
+        desiredPosition.copy(target.position);
+        desiredPosition.y += EYE_HEIGHT - (target.crouching ? CROUCH_HEIGHT : 0);
+        desiredQuaternion.setFromEuler(euler.set(target.pitch, target.yaw, 0));
+        break;
+      case 'orbit':
+        backFromAngles(state.yaw, state.pitch, back);
+        desiredPosition.copy(state.orbitPivot).addScaledVector(back, state.orbitDistance);
+        desiredQuaternion.setFromEuler(euler.set(state.pitch, state.yaw, 0));
+        break;
+      case 'spectator':
+        backFromAngles(state.yaw, state.pitch, back);
+        right.crossVectors(up, back).negate().normalize();
+        direction.set(0, 0, 0);
+        if (state.flying.has('moveForward')) direction.sub(back);
+        if (state.flying.has('moveBackward')) direction.add(back);
+        if (state.flying.has('moveRight')) direction.add(right);
+        if (state.flying.has('moveLeft')) direction.sub(right);
+        if (state.flying.has('jump')) direction.add(up);
+        if (state.flying.has('crouch')) direction.sub(up);
+        if (direction.lengthSq() > 0) direction.normalize();
+
+        // 进入时的视角取自当前相机，从当前位置继续飞行
+        desiredPosition.copy(camera.position).addScaledVector(direction, SPECTATOR_SPEED * delta);
+        desiredQuaternion.setFromEuler(euler.set(state.pitch, state.yaw, 0));
+        break;
+    }
+
+    if (transition.current < 1) {
+      transition.current = Math.min(1, transition.current + delta / TRANSITION_TIME);
+      const t = ease(transition.current);
+      camera.position.lerpVectors(fromPosition.current, desiredPosition, t);
+      camera.quaternion.slerpQuaternions(fromQuaternion.current, desiredQuaternion, t);
+    } else {
+      camera.position.copy(desiredPosition);
+      camera.quaternion.copy(desiredQuaternion);
+    }
+  });
+
+  return null;
+};
+
+export default CameraRig;
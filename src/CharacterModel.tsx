@@ -0,0 +1,118 @@
+import { useLayoutEffect } from 'react';
+import type { ReactNode } from 'react';
+import type { Object3D } from 'three';
+import { createPortal } from '@react-three/fiber';
+import AssetModel from './AssetModel';
+import { BONE_NAMES } from './animation';
+import type { RigBones } from './animation';
+import { SOCKETS, findSocket } from './assets';
+import type { ModelId } from './assets';
+
+interface CharacterModelProps {
+  asset: ModelId;
+  bones: RigBones; // 动画骨骼，模型挂载后写入，卸载时清空
+  weapon?: ReactNode; // 挂在武器挂点上的武器模型
+  crouching?: boolean;
+}
+
+type BodyPartSize = [width: number, height: number, depth: number];
+
+const bodyParts = {
+  head: [0.8, 0.8, 0.8] as BodyPartSize,
+  body: [0.8, 1.2, 0.4] as BodyPartSize,
+  arm: [0.4, 0.8, 0.4] as BodyPartSize,
+  leg: [0.4, 0.8, 0.4] as BodyPartSize
+};
+
+const SKIN_COLOR = '#6ca0c2';
+const CLOTH_COLOR = '#3b7cb1';
+
+// 内置的方块角色，持枪的右臂即武器挂点
+const BoxCharacter = ({ bones, weapon, crouching }: Omit<CharacterModelProps, 'asset'>) => (
+  <>
+    {/* 头部 */}
+    <mesh ref={(mesh) => { bones.head = mesh; }} position={[0, 0.9, 0]}>
+      <boxGeometry args={bodyParts.head} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+      {/* 黑色面作为前方 */}
+      <mesh position={[0, 0, 0.41]}>
+        <planeGeometry args={[0.6, 0.6]} />
+        <meshStandardMaterial color="black" side={2} />
+      </mesh>
+
+      {/* 蹲下时调整头部位置 */}
+      {crouching && (
+        <mesh position={[0, -0.3, 0]}>
+          <boxGeometry args={bodyParts.head} />
+          <meshStandardMaterial color={SKIN_COLOR} transparent opacity={0.3} />
+        </mesh>
+      )}
+    </mesh>
+
+    {/* 身体 */}
+    <mesh ref={(mesh) => { bones.body = mesh; }} position={[0, 0, 0]}>
+      <boxGeometry args={bodyParts.body} />
+      <meshStandardMaterial color={CLOTH_COLOR} />
+      <mesh position={[0, -0.1, 0.21]}>
+        <boxGeometry args={[0.7, 0.3, 0.1]} />
+        <meshStandardMaterial color="#2d6a9a" />
+      </mesh>
+    </mesh>
+
+    {/* 左手臂 */}
+    <mesh ref={(mesh) => { bones.leftArm = mesh; }} position={[-0.6, 0, 0]}>
+      <boxGeometry args={bodyParts.arm} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+    </mesh>
+
+    {/* 右手臂 - 持枪手臂 */}
+    <group position={[0.6, 0, 0]}>
+      <mesh ref={(mesh) => { bones.rightArm = mesh; }}>
+        <boxGeometry args={bodyParts.arm} />
+        <meshStandardMaterial color={SKIN_COLOR} />
+      </mesh>
+
+      {weapon}
+    </group>
+
+    {/* 左腿 */}
+    <mesh ref={(mesh) => { bones.leftLeg = mesh; }} position={[-0.2, -0.9, 0]}>
+      <boxGeometry args={bodyParts.leg} />
+      <meshStandardMaterial color={CLOTH_COLOR} />
+    </mesh>
+
+    {/* 右腿 */}
+    <mesh ref={(mesh) => { bones.rightLeg = mesh; }} position={[0.2, -0.9, 0]}>
+      <boxGeometry args={bodyParts.leg} />
+      <meshStandardMaterial color={CLOTH_COLOR} />
+    </mesh>
+  </>
+);
+
+// glTF 角色：按名称绑定动画骨骼，武器挂到 weaponSocket 节点上
+const GltfRig = ({ root, bones, weapon }: { root: Object3D; bones: RigBones; weapon?: ReactNode }) => {
+  useLayoutEffect(() => {
+    BONE_NAMES.forEach((name) => {
+      bones[name] = root.getObjectByName(name) ?? null;
+    });
+    return () => {
+      BONE_NAMES.forEach((name) => {
+        bones[name] = null;
+      });
+    };
+  }, [root, bones]);
+
+  return weapon ? createPortal(weapon, findSocket(root, SOCKETS.weapon)) : null;
+};
+
+// 角色模型：优先使用 glTF 模型，缺失或加载失败时使用内置的方块角色
+const CharacterModel = ({ asset, bones, weapon, crouching = false }: CharacterModelProps) => (
+  <AssetModel
+    id={asset}
+    fallback={<BoxCharacter bones={bones} weapon={weapon} crouching={crouching} />}
+  >
+    {(root) => <GltfRig root={root} bones={bones} weapon={weapon} />}
+  </AssetModel>
+);
+
+export default CharacterModel;
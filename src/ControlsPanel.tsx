@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import {
+  ACTION_LABELS,
+  INPUT_ACTIONS,
+  formatGamepadButton,
+  formatKey,
+  inputBindings,
+  useInputBindings
+} from './input';
+import type { InputAction } from './input';
+
+// 根据当前输入绑定生成的控制说明，点击按键可重新绑定
+const ControlsPanel = () => {
+  const bindings = useInputBindings();
+  const [rebinding, setRebinding] = useState<InputAction | null>(null);
+
+  // 等待下一次按键或鼠标点击作为新绑定，Esc 取消
+  useEffect(() => {
+    if (!rebinding) return;
+
+    const finish = (e: Event, code: string | null) => {
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (code) inputBindings.bindKey(rebinding, code);
+      setRebinding(null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => finish(e, e.code === 'Escape' ? null : e.code);
+    const handleMouseDown = (e: MouseEvent) => finish(e, `Mouse${e.button}`);
+    const handleWheel = (e: WheelEvent) => finish(e, e.deltaY > 0 ? 'WheelDown' : 'WheelUp');
+
+    // 捕获阶段拦截，避免同一次按键触发游戏动作
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('mousedown', handleMouseDown, true);
+    window.addEventListener('wheel', handleWheel, { capture: true, passive: false });
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('mousedown', handleMouseDown, true);
+      window.removeEventListener('wheel', handleWheel, true);
+    };
+  }, [rebinding]);
+
+  return (
+    <div>
+      {INPUT_ACTIONS.map((action) => {
+        const keys = bindings.keyboard[action].map(formatKey).join(' / ') || '未绑定';
+        const pad = bindings.gamepad.buttons[action]?.map(formatGamepadButton).join(' / ');
+
+        return (
+          <p key={action}>
+            <button
+              onClick={() => setRebinding(action)}
+              style={{
+                padding: '1px 6px',
+                marginRight: '4px',
+                background: rebinding === action ? '#ffaa55' : 'rgba(85, 170, 255, 0.2)',
+                color: 'white',
+                border: '1px solid #55aaff',
+                borderRadius: '3px',
+                cursor: 'pointer',
+                fontWeight: 'bold'
+              }}
+            >
+              {rebinding === action ? '按下新按键…' : keys}
+            </button>
+            : {ACTION_LABELS[action]}
+            {pad && <span style={{ color: '#88aacc', fontSize: '12px' }}>（手柄 {pad}）</span>}
+          </p>
+        );
+      })}
+      <p><strong>手柄摇杆</strong>: 左摇杆移动 / 右摇杆转动视角</p>
+
+      <button
+        onClick={() => inputBindings.reset()}
+        style={{
+          marginTop: '5px',
+          padding: '3px 8px',
+          background: '#3b7cb1',
+          color: 'white',
+          border: 'none',
+          borderRadius: '5px',
+          cursor: 'pointer'
+        }}
+      >
+        恢复默认按键
+      </button>
+    </div>
+  );
+};
+
+export default ControlsPanel;
@@ -0,0 +1,55 @@
+import { useRef } from 'react';
+import type { Group } from 'three';
+import { Html } from '@react-three/drei';
+import { useGameStore } from './gameStore';
+import type { DamageNumber } from './gameStore';
+import { useGameFrame } from './gameLoop';
+
+const RISE_SPEED = 1.5; // 上浮速度（单位/秒）
+const FADE_TIME = 0.8;
+
+// 单个伤害数字：在命中点上浮并淡出
+const FloatingNumber = ({ amount, position, killed }: DamageNumber) => {
+  const groupRef = useRef<Group>(null);
+  const labelRef = useRef<HTMLDivElement>(null);
+  const age = useRef(0);
+
+  useGameFrame((_, delta) => {
+    age.current += delta;
+    if (groupRef.current) groupRef.current.position.y += RISE_SPEED * delta;
+    if (labelRef.current) labelRef.current.style.opacity = String(Math.max(0, 1 - age.current / FADE_TIME));
+  });
+
+  return (
+    <group ref={groupRef} position={position}>
+      <Html center>
+        <div ref={labelRef} style={{
+          color: killed ? '#ffaa55' : '#ffffff',
+          fontSize: killed ? '20px' : '14px',
+          fontWeight: 'bold',
+          textShadow: '0 0 4px #000',
+          pointerEvents: 'none',
+          userSelect: 'none',
+          whiteSpace: 'nowrap'
+        }}>
+          {amount}
+        </div>
+      </Html>
+    </group>
+  );
+};
+
+// 玩家命中时弹出的伤害数字（数据来自游戏状态）
+const DamageNumbers = () => {
+  const damageNumbers = useGameStore((state) => state.damageNumbers);
+
+  return (
+    <>
+      {damageNumbers.map((damageNumber) => (
+        <FloatingNumber key={damageNumber.id} {...damageNumber} />
+      ))}
+    </>
+  );
+};
+
+export default DamageNumbers;
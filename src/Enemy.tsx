@@ -0,0 +1,336 @@
+import { useRef, useEffect, useMemo, useState } from 'react';
+import { Group, Mesh, Vector3, MathUtils, MeshStandardMaterial, Color } from 'three';
+import { PLAYER_ID, damageRegistry, useDamageable } from './damage';
+import type { NavGrid } from './navGrid';
+import { getGroundHeight } from './level';
+import type { LevelData } from './level';
+import { PositionHistory, useFixedFrame } from './gameLoop';
+import { effectBus } from './effects';
+import { Animator } from './animation';
+import { ENEMY_CLIPS } from './animationClips';
+
+// 敌人行为状态
+export type EnemyState = 'idle' | 'chase' | 'attack' | 'flee' | 'dying';
+
+interface EnemyProps {
+  id: string; // 受击注册表中的目标ID
+  position: [number, number, number];
+  navGrid: NavGrid;
+  level: LevelData; // 所在关卡，用于贴合地表高度
+  maxHealth: number;
+  targetRef?: React.RefObject<Group | null>; // 追踪目标（玩家）
+  targetId?: string; // 追踪目标在受击注册表中的ID
+  onDeath?: (id: string) => void; // 死亡动画结束回调
+}
+
+const MOVE_SPEED = 4;
+const FLEE_SPEED = 5;
+const ATTACK_RANGE = 1.8;
+const ATTACK_REACH = 2.5; // 目标高度差超过此值时无法攻击（如站在建筑顶上）
+const ATTACK_COOLDOWN = 1.2;
+const ATTACK_DAMAGE = 10;
+const FLEE_THRESHOLD = 0.25; // 低于25%生命值时逃跑
+const FLEE_DISTANCE = 15;
+const FLEE_DURATION = 4; // 逃跑一段时间后重新追击
+const SPAWN_IDLE_TIME = 1; // 出生后的发呆时间
+const REPATH_INTERVAL = 0.5; // 重新寻路间隔
+const WAYPOINT_RADIUS = 0.3;
+const DEATH_DURATION = 1;
+const HIT_FLASH_TIME = 0.12;
+
+const baseColor = new Color('#3d7a1f');
+const fleeColor = new Color('#b0a020');
+const flashColor = new Color('#ffffff');
+
+// 沿最短方向插值朝向角
+const lerpAngle = (from: number, to: number, t: number) =>
+  from + (MathUtils.euclideanModulo(to - from + Math.PI, Math.PI * 2) - Math.PI) * t;
+
+const Enemy = ({
+  id,
+  position,
+  navGrid,
+  level,
+  maxHealth,
+  targetRef,
+  targetId = PLAYER_ID,
+  onDeath
+}: EnemyProps) => {
+  const rootRef = useRef<Group>(null);
+  const bodyRef = useRef<Mesh>(null);
+  const leftArmRef = useRef<Group>(null);
+  const rightArmRef = useRef<Group>(null);
+  const leftLegRef = useRef<Mesh>(null);
+  const rightLegRef = useRef<Mesh>(null);
+  const healthBarRef = useRef<Group>(null);
+  const healthFillRef = useRef<Mesh>(null);
+
+  const [health, setHealth] = useState(maxHealth);
+  const [state, setState] = useState<EnemyState>('idle');
+
+  const stateTime = useRef(0);
+  const path = useRef<Vector3[]>([]);
+  const repathTimer = useRef(0);
+  const attackTimer = useRef(0);
+  const hasFled = useRef(false); // 每个敌人只逃跑一次
+  const hitFlash = useRef(0);
+  const previousHealth = useRef(health);
+  const deathNotified = useRef(false);
+  const moving = useRef(false); // 最近一步是否在移动，用于走路动作
+  const [history] = useState(() => {
+    const initial = new PositionHistory();
+    initial.reset(new Vector3(...position));
+    return initial;
+  });
+  const [animator] = useState(() => new Animator(ENEMY_CLIPS));
+
+  const material = useMemo(() => new MeshStandardMaterial({
+    color: baseColor,
+    emissive: baseColor,
+    emissiveIntensity: 0.2,
+    roughness: 0.6,
+    metalness: 0.2
+  }), []);
+
+  useEffect(() => () => material.dispose(), [material]);
+
+  useDamageable(bodyRef, {
+    id,
+    maxHealth,
+    hitbox: { type: 'box', size: [1, 2.2, 1] },
+    team: 'enemy',
+    onHit: (event) => setHealth(event.remainingHealth)
+  });
+
+  // 生命值下降时触发受击闪烁，归零时死亡，过低时逃跑
+  useEffect(() => {
+    if (health < previousHealth.current) {
+      hitFlash.current = HIT_FLASH_TIME;
+    }
+    previousHealth.current = health;
+
+    if (health <= 0) {
+      if (state !== 'dying') {
+        stateTime.current = 0;
+        setState('dying');
+      }
+    } else if (health / maxHealth < FLEE_THRESHOLD && !hasFled.current) {
+      hasFled.current = true;
+      stateTime.current = 0;
+      repathTimer.current = 0;
+      setState('flee');
+    }
+  }, [health, maxHealth, state]);
+
+  const enterState = (next: EnemyState) => {
+    stateTime.current = 0;
+    repathTimer.current = 0;
+    setState(next);
+  };
+
+  // 沿路径移动，返回本帧是否移动
+  const followPath = (root: Group, speed: number, delta: number) => {
+    let remaining = speed * delta;
+
+    while (remaining > 0 && path.current.length > 0) {
+      const waypoint = path.current[0];
+      const dx = waypoint.x - root.position.x;
+      const dz = waypoint.z - root.position.z;
+      const distance = Math.hypot(dx, dz);
+
+      if (distance <= WAYPOINT_RADIUS) {
+        path.current.shift();
+        continue;
+      }
+
+      const step = Math.min(remaining, distance);
+      root.position.x += (dx / distance) * step;
+      root.position.z += (dz / distance) * step;
+      root.rotation.y = lerpAngle(root.rotation.y, Math.atan2(dx, dz), 0.2);
+      remaining -= step;
+    }
+
+    return remaining < speed * delta;
+  };
+
+  // 行为和移动按固定步长模拟：先恢复到最新一步的模拟位置，结束后记录
+  const simulate = (root: Group, delta: number) => {
+    stateTime.current += delta;
+
+    // 死亡动画：向后倒下并下沉
+    if (state === 'dying') {
+      const progress = Math.min(1, stateTime.current / DEATH_DURATION);
+      root.rotation.x = -progress * Math.PI / 2;
+      root.position.y -= (0.8 / DEATH_DURATION) * delta;
+
+      if (progress >= 1 && !deathNotified.current) {
+        deathNotified.current = true;
+        root.visible = false;
+        effectBus.spawn('explosion', root.position);
+        if (onDeath) onDeath(id);
+      }
+      return;
+    }
+
+    const target = targetRef?.current;
+    const targetPosition = target ? target.position : null;
+    const horizontalDistance = targetPosition
+      ? Math.hypot(targetPosition.x - root.position.x, targetPosition.z - root.position.z)
+      : Infinity;
+    const canReach = !!targetPosition && Math.abs(targetPosition.y - root.position.y - 1) < ATTACK_REACH;
+    moving.current = false;
+
+    if (state === 'idle') {
+      if (targetPosition && stateTime.current > SPAWN_IDLE_TIME) enterState('chase');
+    } else if (state === 'chase' && targetPosition) {
+      if (horizontalDistance < ATTACK_RANGE && canReach) {
+        enterState('attack');
+      } else {
+        // 定期重新寻路；能直线到达时直接走向目标
+        repathTimer.current -= delta;
+        if (repathTimer.current <= 0) {
+          repathTimer.current = REPATH_INTERVAL;
+          const goal = new Vector3(targetPosition.x, root.position.y, targetPosition.z);
+          path.current = navGrid.hasLineOfSight(root.position, goal)
+            ? [goal]
+            : navGrid.findPath(root.position, goal) ?? [];
+        }
+        moving.current = followPath(root, MOVE_SPEED, delta);
+      }
+    } else if (state === 'attack' && targetPosition) {
+      // 面向目标，冷却结束后挥击
+      const facing = Math.atan2(targetPosition.x - root.position.x, targetPosition.z - root.position.z);
+      root.rotation.y = lerpAngle(root.rotation.y, facing, 0.2);
+
+      attackTimer.current -= delta;
+      if (attackTimer.current <= 0) {
+        attackTimer.current = ATTACK_COOLDOWN;
+        damageRegistry.applyDirectDamage(targetId, ATTACK_DAMAGE, 'enemy-melee', root.position);
+        animator.trigger('attack');
+      }
+
+      if (horizontalDistance > ATTACK_RANGE * 1.3 || !canReach) {
+        enterState('chase');
+      }
+    } else if (state === 'flee') {
+      // 朝远离目标的方向逃跑
+      repathTimer.current -= delta;
+      if (repathTimer.current <= 0 && targetPosition) {
+        repathTimer.current = REPATH_INTERVAL * 2;
+        const away = new Vector3(root.position.x - targetPosition.x, 0, root.position.z - targetPosition.z);
+        if (away.lengthSq() === 0) away.set(1, 0, 0);
+        away.normalize().multiplyScalar(FLEE_DISTANCE).add(root.position);
+        path.current = navGrid.findPath(root.position, away) ?? [];
+      }
+      moving.current = followPath(root, FLEE_SPEED, delta);
+
+      if (stateTime.current > FLEE_DURATION) {
+        enterState('chase');
+      }
+    }
+
+    // 贴合地面（走上中央平台时抬高）
+    root.position.y = getGroundHeight(level, root.position.x, root.position.z);
+  };
+
+  useFixedFrame((_, dt) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    root.position.copy(history.current);
+    simulate(root, dt);
+    history.push(root.position);
+  }, ({ camera }, alpha, delta) => {
+    const root = rootRef.current;
+    if (!root) return;
+
+    // 渲染位置在最近两步之间插值
+    history.interpolate(alpha, root.position);
+
+    // 受击闪烁
+    hitFlash.current = Math.max(0, hitFlash.current - delta);
+    const stateColor = state === 'flee' ? fleeColor : baseColor;
+    material.emissive.copy(hitFlash.current > 0 ? flashColor : stateColor);
+    material.emissiveIntensity = hitFlash.current > 0 ? 1.5 : 0.2;
+
+    // 血条朝向相机
+    if (healthBarRef.current && healthFillRef.current) {
+      const ratio = Math.max(0, health / maxHealth);
+      healthBarRef.current.lookAt(camera.position);
+      healthFillRef.current.scale.x = Math.max(0.001, ratio);
+      healthFillRef.current.position.x = -(1 - ratio) * 0.5;
+    }
+
+    // 手脚动作
+    if (state === 'dying') animator.play('death');
+    else if (state === 'flee') animator.play('flee');
+    else if (state === 'attack') animator.play('guard');
+    else animator.play(moving.current ? 'walk' : 'idle');
+    animator.update(delta);
+    animator.apply({
+      leftArm: leftArmRef.current,
+      rightArm: rightArmRef.current,
+      leftLeg: leftLegRef.current,
+      rightLeg: rightLegRef.current
+    });
+  });
+
+  return (
+    <group ref={rootRef} position={position}>
+      {/* 身体（子弹碰撞检测的主体） */}
+      <mesh ref={bodyRef} position={[0, 1.3, 0]} material={material} castShadow>
+        <boxGeometry args={[0.8, 1, 0.45]} />
+
+        {/* 头部 */}
+        <mesh position={[0, 0.8, 0]} material={material} castShadow>
+          <boxGeometry args={[0.6, 0.6, 0.6]} />
+          {/* 眼睛 */}
+          <mesh position={[-0.14, 0.05, 0.31]}>
+            <planeGeometry args={[0.12, 0.08]} />
+            <meshStandardMaterial color="#ff3300" emissive="#ff2200" emissiveIntensity={2} />
+          </mesh>
+          <mesh position={[0.14, 0.05, 0.31]}>
+            <planeGeometry args={[0.12, 0.08]} />
+            <meshStandardMaterial color="#ff3300" emissive="#ff2200" emissiveIntensity={2} />
+          </mesh>
+        </mesh>
+
+        {/* 手臂（绕肩膀旋转） */}
+        <group ref={leftArmRef} position={[-0.55, 0.4, 0]}>
+          <mesh position={[0, -0.35, 0]} material={material} castShadow>
+            <boxGeometry args={[0.25, 0.9, 0.25]} />
+          </mesh>
+        </group>
+        <group ref={rightArmRef} position={[0.55, 0.4, 0]}>
+          <mesh position={[0, -0.35, 0]} material={material} castShadow>
+            <boxGeometry args={[0.25, 0.9, 0.25]} />
+          </mesh>
+        </group>
+
+        {/* 腿部 */}
+        <mesh ref={leftLegRef} position={[-0.2, -0.9, 0]} material={material} castShadow>
+          <boxGeometry args={[0.3, 0.8, 0.3]} />
+        </mesh>
+        <mesh ref={rightLegRef} position={[0.2, -0.9, 0]} material={material} castShadow>
+          <boxGeometry args={[0.3, 0.8, 0.3]} />
+        </mesh>
+      </mesh>
+
+      {/* 头顶血条 */}
+      {state !== 'dying' && (
+        <group ref={healthBarRef} position={[0, 2.8, 0]}>
+          <mesh>
+            <planeGeometry args={[1, 0.12]} />
+            <meshBasicMaterial color="#333" />
+          </mesh>
+          <mesh ref={healthFillRef} position={[0, 0, 0.001]}>
+            <planeGeometry args={[1, 0.12]} />
+            <meshBasicMaterial color={state === 'flee' ? '#ffcc00' : '#ff3366'} />
+          </mesh>
+        </group>
+      )}
+    </group>
+  );
+};
+
+export default Enemy;
@@ -0,0 +1,103 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { Group } from 'three';
+import Enemy from './Enemy';
+import { NavGrid } from './navGrid';
+import { getFootprints, getGroundHeight } from './level';
+import { gameStore } from './gameStore';
+import type { LevelData } from './level';
+import { useFixedFrame } from './gameLoop';
+import { random } from './random';
+import type { Random } from './random';
+
+interface EnemyWavesProps {
+  level: LevelData; // 导航网格和出生区域都来自关卡
+  targetRef?: React.RefObject<Group | null>;
+}
+
+interface EnemySpawn {
+  id: string;
+  position: [number, number, number];
+  maxHealth: number;
+}
+
+const FIRST_WAVE_DELAY = 3; // 开局后第一波的等待时间（秒）
+const WAVE_DELAY = 5; // 清空一波后到下一波的间隔
+const MAX_WAVE_SIZE = 20;
+const AGENT_RADIUS = 0.6; // 寻路时障碍物外扩距离
+
+const waveSize = (wave: number) => Math.min(MAX_WAVE_SIZE, 3 + wave * 2);
+const waveHealth = (wave: number) => 40 + wave * 10;
+
+// 在关卡的出生区域中随机选取可通行的出生点
+const pickSpawn = (level: LevelData, navGrid: NavGrid, rng: Random): [number, number, number] => {
+  const { enemySpawners } = level;
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const spawner = rng.pick(enemySpawners);
+    const x = spawner.position[0] + rng.spread(spawner.size[0]);
+    const z = spawner.position[1] + rng.spread(spawner.size[1]);
+    if (navGrid.isWalkable(x, z)) return [x, getGroundHeight(level, x, z), z];
+  }
+
+  const [x, z] = enemySpawners[0].position;
+  return [x, getGroundHeight(level, x, z), z];
+};
+
+// 敌人波次：从关卡的出生区域生成地面敌人，全部消灭后开始下一波
+const EnemyWaves = ({ level, targetRef }: EnemyWavesProps) => {
+  const navGrid = useMemo(() => new NavGrid({
+    size: level.ground.size,
+    cellSize: 1,
+    obstacles: getFootprints(level),
+    padding: AGENT_RADIUS
+  }), [level]);
+
+  const [wave, setWave] = useState(0);
+  const [enemies, setEnemies] = useState<EnemySpawn[]>([]);
+  const nextWaveTimer = useRef(FIRST_WAVE_DELAY);
+  const spawnCounter = useRef(0);
+  const [rng] = useState(() => random.stream('enemy-waves'));
+
+  useEffect(() => {
+    gameStore.setWave(wave, enemies.length);
+  }, [wave, enemies.length]);
+
+  useFixedFrame((_, dt) => {
+    if (enemies.length > 0 || level.enemySpawners.length === 0) return;
+
+    nextWaveTimer.current -= dt;
+    if (nextWaveTimer.current > 0) return;
+
+    const next = wave + 1;
+    nextWaveTimer.current = WAVE_DELAY;
+    setWave(next);
+    setEnemies(Array.from({ length: waveSize(next) }, () => ({
+      id: `enemy-${spawnCounter.current++}`,
+      position: pickSpawn(level, navGrid, rng),
+      maxHealth: waveHealth(next)
+    })));
+  });
+
+  const handleDeath = (id: string) => {
+    setEnemies((prev) => prev.filter((enemy) => enemy.id !== id));
+  };
+
+  return (
+    <>
+      {enemies.map((enemy) => (
+        <Enemy
+          key={enemy.id}
+          id={enemy.id}
+          position={enemy.position}
+          maxHealth={enemy.maxHealth}
+          navGrid={navGrid}
+          level={level}
+          targetRef={targetRef}
+          onDeath={handleDeath}
+        />
+      ))}
+    </>
+  );
+};
+
+export default EnemyWaves;
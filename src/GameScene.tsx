@@ -1,305 +1,250 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useMemo } from 'react';
 import * as THREE from 'three';
-import { useFrame, useThree } from '@react-three/fiber';
-import { EffectComposer, Bloom } from '@react-three/postprocessing';
+import { useBox, useCylinder, usePlane } from '@react-three/cannon';
+import type {
+  EmitterData,
+  HazardData,
+  LevelBox,
+  LevelCylinder,
+  LevelData,
+  LevelMaterial,
+  LevelRamp,
+  PickupData
+} from './level';
+import { useGameStore } from './gameStore';
+import { useGameFrame } from './gameLoop';
+import ParticleEmitter from './ParticleEmitter';
+import { levelEmitterConfig } from './particlePresets';
+import { applyEmitterOverrides, emitterKey, useTuning } from './tuning';
+import type { EmitterOverrides } from './tuning';
+import { QUALITY_PRESETS, scaleParticleCount, useGraphics } from './graphics';
+import { getRampSlab } from './levelColliders';
 
-// 粒子配置类型
-interface ParticleConfig {
-  star: {
-    count: number;
-    size: number;
-    rotationSpeed: number;
-  };
-  waterfall: {
-    count: number;
-    size: number;
-    speed: number;
-    spread: number;
-  };
-  fountain: {
-    count: number;
-    size: number;
-    power: number;
-    height: number;
-  };
-}
+const BOUNDARY_HEIGHT = 20; // 边界墙高度，高于跳跃高度
 
-const GameScene = () => {
-  const [particleConfig] = useState<ParticleConfig>({
-    star: { count: 2000, size: 0.5, rotationSpeed: 0.0002 },
-    waterfall: { count: 1000, size: 1.5, speed: 0.2, spread: 10 },
-    fountain: { count: 800, size: 1.8, power: 0.35, height: 15 },
-  });
-  
-  const starsRef = useRef<THREE.Points>(null);
-  const waterfallRef = useRef<THREE.Points>(null);
-  const fountainRef = useRef<THREE.Points>(null);
-  const controlBallRef = useRef<THREE.Mesh>(null);
-  
-  const { scene } = useThree();
-  
-  // 创建星空背景
-  useEffect(() => {
-    const { count } = particleConfig.star;
-    const starsGeometry = new THREE.BufferGeometry();
-    
-    const starsVertices = [];
-    for (let i = 0; i < count; i++) {
-      const x = THREE.MathUtils.randFloatSpread(200);
-      const y = THREE.MathUtils.randFloatSpread(200);
-      const z = THREE.MathUtils.randFloatSpread(200);
-      starsVertices.push(x, y, z);
-    }
-    
-    starsGeometry.setAttribute('position', new THREE.Float32BufferAttribute(starsVertices, 3));
-    if (starsRef.current) {
-      starsRef.current.geometry.dispose();
-      starsRef.current.geometry = starsGeometry;
-    }
-  }, [particleConfig.star]);
-  
-  // 创建粒子瀑布
-  useEffect(() => {
-    const { count, speed, spread } = particleConfig.waterfall;
-    const waterfallGeometry = new THREE.BufferGeometry();
-    
-    const particles = new Float32Array(count * 3);
-    const particleVelocities = new Float32Array(count);
-    
-    for (let i = 0; i < count; i++) {
-      const i3 = i * 3;
-      particles[i3] = (Math.random() - 0.5) * spread; // x
-      particles[i3 + 1] = Math.random() * 20; // y
-      particles[i3 + 2] = (Math.random() - 0.5) * 5; // z
-      
-      particleVelocities[i] = Math.random() * speed + speed * 0.5;
-    }
-    
-    waterfallGeometry.setAttribute('position', new THREE.BufferAttribute(particles, 3));
-    if (waterfallRef.current) {
-      waterfallRef.current.userData.velocities = particleVelocities;
-      waterfallRef.current.userData.resetY = 20;
-      waterfallRef.current.geometry.dispose();
-      waterfallRef.current.geometry = waterfallGeometry;
-    }
-  }, [particleConfig.waterfall]);
-  
-  // 创建粒子喷泉
-  useEffect(() => {
-    const { count, power, height } = particleConfig.fountain;
-    const fountainGeometry = new THREE.BufferGeometry();
-    
-    const particles = new Float32Array(count * 3);
-    const particleVelocities = new Float32Array(count * 3);
-    const startPositions = new Float32Array(count * 3);
-    
-    for (let i = 0; i < count; i++) {
-      const i3 = i * 3;
-      const angle = Math.random() * Math.PI * 2;
-      const radius = Math.random() * 2;
-      
-      // 起始位置
-      startPositions[i3] = Math.cos(angle) * radius;
-      startPositions[i3 + 1] = 0;
-      startPositions[i3 + 2] = Math.sin(angle) * radius;
-      
-      // 初始位置
-      particles[i3] = startPositions[i3];
-      particles[i3 + 1] = startPositions[i3 + 1];
-      particles[i3 + 2] = startPositions[i3 + 2];
-      
-      // 初始速度
-      const velocityPower = Math.random() * power + power * 0.3;
-      particleVelocities[i3] = (Math.random() - 0.5) * 0.2;
-      particleVelocities[i3 + 1] = Math.random() * velocityPower + velocityPower * 0.5;
-      particleVelocities[i3 + 2] = (Math.random() - 0.5) * 0.2;
-    }
-    
-    fountainGeometry.setAttribute('position', new THREE.BufferAttribute(particles, 3));
-    if (fountainRef.current) {
-      fountainRef.current.userData = { 
-        velocities: particleVelocities, 
-        startPositions: startPositions,
-        resetHeight: height
-      };
-      fountainRef.current.geometry.dispose();
-      fountainRef.current.geometry = fountainGeometry;
-    }
-  }, [particleConfig.fountain]);
-  
-  // 创建环境
-  useEffect(() => {
-    // 地面
-    const groundGeometry = new THREE.PlaneGeometry(100, 100);
-    const groundMaterial = new THREE.MeshStandardMaterial({
-      color: 0x1a5c1a,
-      roughness: 0.8,
-      metalness: 0.2
-    });
-    const ground = new THREE.Mesh(groundGeometry, groundMaterial);
-    ground.rotation.x = -Math.PI / 2;
-    ground.position.y = -2;
-    ground.receiveShadow = true;
-    scene.add(ground);
-    
-    // 随机建筑
-    const buildingMaterial = new THREE.MeshStandardMaterial({
-      color: 0x8a6d3b,
-      roughness: 0.7,
-      metalness: 0.3
-    });
-    
-    for (let i = 0; i < 10; i++) {
-      const size = Math.random() * 4 + 2;
-      const height = Math.random() * 8 + 4;
-      const buildingGeometry = new THREE.BoxGeometry(size, height, size);
-      const building = new THREE.Mesh(buildingGeometry, buildingMaterial);
-      
-      building.position.x = (Math.random() - 0.5) * 80;
-      building.position.z = (Math.random() - 0.5) * 80;
-      building.position.y = height / 2 - 2;
-      building.castShadow = true;
-      building.receiveShadow = true;
-      
-      scene.add(building);
-    }
-    
-    // 中央平台
-    const platformGeometry = new THREE.CylinderGeometry(8, 8, 1, 32);
-    const platformMaterial = new THREE.MeshStandardMaterial({
-      color: 0x7d6608,
-      roughness: 0.6,
-      metalness: 0.4
-    });
-    const platform = new THREE.Mesh(platformGeometry, platformMaterial);
-    platform.position.y = -1.5;
-    platform.receiveShadow = true;
-    scene.add(platform);
-    
-    return () => {
-      scene.remove(ground);
-      // 清理建筑等...
+// 关卡材质
+const SurfaceMaterial = ({ color, roughness, metalness, emissive, emissiveIntensity, opacity }: LevelMaterial) => (
+  <meshStandardMaterial
+    color={color}
+    roughness={roughness}
+    metalness={metalness}
+    emissive={emissive}
+    emissiveIntensity={emissiveIntensity}
+    transparent={opacity !== undefined && opacity < 1}
+    opacity={opacity ?? 1}
+  />
+);
+
+// 地面
+const Ground = ({ size, y, material }: { size: number; y: number; material: LevelMaterial }) => {
+  const [ref] = usePlane<THREE.Mesh>(() => ({
+    type: 'Static',
+    rotation: [-Math.PI / 2, 0, 0],
+    position: [0, y, 0]
+  }));
+
+  return (
+    <mesh ref={ref} receiveShadow>
+      <planeGeometry args={[size, size]} />
+      <SurfaceMaterial {...material} />
+    </mesh>
+  );
+};
+
+// 不可见的边界墙，防止走出地面
+const BoundaryWall = ({ position, args }: { position: [number, number, number]; args: [number, number, number] }) => {
+  useBox(() => ({ type: 'Static', args, position }));
+  return null;
+};
+
+const WorldBounds = ({ size, groundY }: { size: number; groundY: number }) => {
+  const half = size / 2;
+  const y = groundY + BOUNDARY_HEIGHT / 2;
+  const thickness = 1;
+
+  return (
+    <>
+      <BoundaryWall position={[0, y, -half - thickness / 2]} args={[size, BOUNDARY_HEIGHT, thickness]} />
+      <BoundaryWall position={[0, y, half + thickness / 2]} args={[size, BOUNDARY_HEIGHT, thickness]} />
+      <BoundaryWall position={[-half - thickness / 2, y, 0]} args={[thickness, BOUNDARY_HEIGHT, size]} />
+      <BoundaryWall position={[half + thickness / 2, y, 0]} args={[thickness, BOUNDARY_HEIGHT, size]} />
+    </>
+  );
+};
+
+// 方块（建筑、墙体、箱子）
+const Box = ({ shape, material }: { shape: LevelBox; material: LevelMaterial }) => {
+  const [ref] = useBox<THREE.Mesh>(() => ({
+    type: 'Static',
+    args: shape.size,
+    position: shape.position,
+    rotation: [0, shape.rotation ?? 0, 0]
+  }));
+
+  return (
+    <mesh ref={ref} castShadow receiveShadow>
+      <boxGeometry args={shape.size} />
+      <SurfaceMaterial {...material} />
+    </mesh>
+  );
+};
+
+// 圆柱（平台、柱子）
+const Cylinder = ({ shape, material }: { shape: LevelCylinder; material: LevelMaterial }) => {
+  const { radius, height, segments = 32 } = shape;
+  const [ref] = useCylinder<THREE.Mesh>(() => ({
+    type: 'Static',
+    args: [radius, radius, height, segments],
+    position: shape.position,
+    rotation: [0, shape.rotation ?? 0, 0]
+  }));
+
+  return (
+    <mesh ref={ref} castShadow receiveShadow>
+      <cylinderGeometry args={[radius, radius, height, segments]} />
+      <SurfaceMaterial {...material} />
+    </mesh>
+  );
+};
+
+// 斜坡：倾斜的薄板，顶面从底边升到高边
+const Ramp = ({ shape, material }: { shape: LevelRamp; material: LevelMaterial }) => {
+  const { position, quaternion, size } = useMemo(() => {
+    const slab = getRampSlab(shape);
+    return {
+      position: slab.position.toArray() as [number, number, number],
+      quaternion: slab.quaternion.toArray() as [number, number, number, number],
+      size: slab.size.toArray() as [number, number, number]
     };
-  }, [scene]);
-  
-  // 动画更新
-  useFrame((state, delta) => {
-    // 旋转星空
-    if (starsRef.current) {
-      starsRef.current.rotation.y += particleConfig.star.rotationSpeed * delta * 60;
-    }
-    
-    // 更新瀑布粒子
-    if (waterfallRef.current) {
-      const positions = waterfallRef.current.geometry.attributes.position.array;
-      const velocities = waterfallRef.current.userData.velocities;
-      
-      for (let i = 0; i < positions.length; i += 3) {
-        const index = i / 3;
-        positions[i + 1] -= velocities[index] * delta * 20;
-        
-        if (positions[i + 1] < -10) {
-          positions[i + 1] = waterfallRef.current.userData.resetY;
-          positions[i] = (Math.random() - 0.5) * 10;
-        }
-      }
-      
-      waterfallRef.current.geometry.attributes.position.needsUpdate = true;
-    }
-    
-    // 更新喷泉粒子
-    if (fountainRef.current) {
-      const positions = fountainRef.current.geometry.attributes.position.array;
-      const velocities = fountainRef.current.userData.velocities;
-      const startPositions = fountainRef.current.userData.startPositions;
-      
-      for (let i = 0; i < positions.length; i += 3) {
-        // 应用重力
-        velocities[i + 1] -= 0.2 * delta * 20;
-    
-        // 更新位置
-        positions[i] += velocities[i] * delta * 10;
-        positions[i + 1] += velocities[i + 1] * delta * 10;
-        positions[i + 2] += velocities[i + 2] * delta * 10;
-    
-        // 重置粒子
-        if (positions[i + 1] < 0) {
-          positions[i] = startPositions[i];
-          positions[i + 1] = startPositions[i + 1];
-          positions[i + 2] = startPositions[i + 2];
-        
-          const velocityPower = Math.random() * particleConfig.fountain.power + particleConfig.fountain.power * 0.3;
-          velocities[i] = (Math.random() - 0.5) * 0.2;
-          velocities[i + 1] = Math.random() * velocityPower + velocityPower * 0.5;
-          velocities[i + 2] = (Math.random() - 0.5) * 0.2;
-        }
-      }
-      
-      fountainRef.current.geometry.attributes.position.needsUpdate = true;
+  }, [shape]);
+
+  const [ref] = useBox<THREE.Mesh>(() => ({
+    type: 'Static',
+    args: size,
+    position,
+    quaternion
+  }));
+
+  return (
+    <mesh ref={ref} castShadow receiveShadow>
+      <boxGeometry args={size} />
+      <SurfaceMaterial {...material} />
+    </mesh>
+  );
+};
+
+// 危险区域（发光的地面圆盘，伤害由玩家逐帧检测）
+const Hazard = ({ position, radius }: HazardData) => {
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null);
+
+  useGameFrame(({ clock }) => {
+    if (materialRef.current) {
+      materialRef.current.emissiveIntensity = 1 + Math.sin(clock.elapsedTime * 4) * 0.5;
     }
-    
-    // 控制球脉动效果
-    if (controlBallRef.current) {
-      const scale = 1 + Math.sin(state.clock.elapsedTime * 3) * 0.05;
-      controlBallRef.current.scale.set(scale, scale, scale);
+  });
+
+  return (
+    <mesh position={[position[0], position[1] + 0.02, position[2]]} receiveShadow>
+      <cylinderGeometry args={[radius, radius, 0.04, 32]} />
+      <meshStandardMaterial
+        ref={materialRef}
+        color={0x55ff33}
+        emissive={0x33ff00}
+        emissiveIntensity={1}
+        transparent
+        opacity={0.8}
+      />
+    </mesh>
+  );
+};
+
+// 拾取物（旋转漂浮，被拾取后隐藏直到重新出现，拾取由玩家逐帧检测）
+const Pickup = ({ id, type, position }: PickupData) => {
+  const ref = useRef<THREE.Mesh>(null);
+  const collected = useGameStore((state) => state.collectedPickups.includes(id));
+  const color = type === 'health' ? 0x55ff99 : 0xffaa55;
+
+  useGameFrame(({ clock }) => {
+    if (ref.current) {
+      ref.current.rotation.y = clock.elapsedTime * 2;
+      ref.current.position.y = position[1] + Math.sin(clock.elapsedTime * 3) * 0.15;
     }
   });
-  
+
+  if (collected) return null;
+
+  return (
+    <mesh ref={ref} position={position} castShadow>
+      {type === 'health' ? <octahedronGeometry args={[0.4]} /> : <boxGeometry args={[0.5, 0.5, 0.5]} />}
+      <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.6} />
+    </mesh>
+  );
+};
+
+interface LevelEmitterProps {
+  emitter: EmitterData;
+  overrides?: EmitterOverrides;
+  particleScale: number;
+  streamName: string;
+}
+
+// 关卡粒子发射器：参数可在调试面板中实时调整，粒子数量再按画质缩放
+// 每个发射器只在自身参数变化时重建配置，调整一个不会重建其他发射器
+const LevelEmitter = ({ emitter, overrides, particleScale, streamName }: LevelEmitterProps) => {
+  const { config, position } = useMemo(
+    () => levelEmitterConfig(scaleParticleCount(applyEmitterOverrides(emitter, overrides), particleScale)),
+    [emitter, overrides, particleScale]
+  );
+
+  return <ParticleEmitter config={config} position={position} streamName={streamName} />;
+};
+
+interface GameSceneProps {
+  level: LevelData; // 关卡数据，物理体、模型与敌人寻路共用
+}
+
+// 按关卡数据搭建场景
+const GameScene = ({ level }: GameSceneProps) => {
+  const { ground, materials } = level;
+  const tuning = useTuning();
+  const quality = QUALITY_PRESETS[useGraphics().quality];
+
   return (
     <>
-      {/* 星空 */}
-      <points ref={starsRef}>
-        <pointsMaterial 
-          size={particleConfig.star.size} 
-          transparent 
-          opacity={0.8} 
-          color="#ffffff"
-        />
-      </points>
-      
-      {/* 瀑布 */}
-      <points ref={waterfallRef} position={[0, 10, -5]}>
-        <pointsMaterial 
-          color={0x55aaff} 
-          size={particleConfig.waterfall.size} 
-          transparent 
-          opacity={0.7} 
-          blending={THREE.AdditiveBlending}
-        />
-      </points>
-      
-      {/* 喷泉 */}
-      <points ref={fountainRef} position={[0, 0, 0]}>
-        <pointsMaterial 
-          color={0xffaa55} 
-          size={particleConfig.fountain.size} 
-          transparent 
-          opacity={0.8} 
-          blending={THREE.AdditiveBlending}
-        />
-      </points>
-      
-      {/* 控制球 */}
-      <mesh ref={controlBallRef} position={[0, 0, 0]} castShadow>
-        <sphereGeometry args={[1.5, 32, 32]} />
-        <meshStandardMaterial 
-          color={0xff3366}
-          emissive={0xff0066}
-          emissiveIntensity={0.5}
-          roughness={0.3}
-          metalness={0.7}
-        />
-      </mesh>
-      
-      {/* 后期处理 */}
-      <EffectComposer>
-        <Bloom 
-          intensity={1.5}
-          radius={0.4}
-          luminanceThreshold={0.85}
-          luminanceSmoothing={0.1}
-        />
-      </EffectComposer>
+      {/* 环境（物理刚体） */}
+      <Ground size={ground.size} y={ground.y} material={materials[ground.material]} />
+      <WorldBounds size={ground.size} groundY={ground.y} />
+      {level.geometry.map((shape, index) => {
+        const material = materials[shape.material];
+        switch (shape.type) {
+          case 'box':
+            return <Box key={index} shape={shape} material={material} />;
+          case 'cylinder':
+            return <Cylinder key={index} shape={shape} material={material} />;
+          case 'ramp':
+            return <Ramp key={index} shape={shape} material={material} />;
+        }
+      })}
+      {level.hazards.map((hazard, index) => (
+        <Hazard key={index} {...hazard} />
+      ))}
+      {level.pickups.map((pickup) => (
+        <Pickup key={pickup.id} {...pickup} />
+      ))}
+
+      {/* 粒子（星空、瀑布、喷泉等） */}
+      {level.emitters.map((emitter, index) => {
+        const key = emitterKey(emitter, index);
+        return (
+          <LevelEmitter
+            key={key}
+            streamName={key}
+            emitter={emitter}
+            overrides={tuning.emitters[key]}
+            particleScale={quality.particleScale}
+          />
+        );
+      })}
     </>
   );
 };
@@ -0,0 +1,68 @@
+import {
+  POST_EFFECTS,
+  POST_EFFECT_LABELS,
+  QUALITY_LABELS,
+  QUALITY_LEVELS,
+  TARGET_FPS_OPTIONS,
+  getPostEffects,
+  graphicsStore,
+  useGraphics
+} from './graphics';
+import type { QualityLevel } from './graphics';
+
+// 画质设置：手动选择档位，或按目标帧率自动调整；后期效果可单独开关
+const GraphicsPanel = () => {
+  const graphics = useGraphics();
+  const effects = getPostEffects(graphics);
+
+  return (
+    <div style={{ marginTop: '10px' }}>
+      <label style={{ display: 'block' }}>
+        画质：
+        <select
+          value={graphics.quality}
+          onChange={(e) => graphicsStore.setQuality(e.target.value as QualityLevel)}
+        >
+          {QUALITY_LEVELS.map((level) => (
+            <option key={level} value={level}>{QUALITY_LABELS[level]}</option>
+          ))}
+        </select>
+      </label>
+      <label style={{ display: 'block', marginTop: '5px' }}>
+        <input
+          type="checkbox"
+          checked={graphics.auto}
+          onChange={(e) => graphicsStore.setAuto(e.target.checked)}
+        />
+        {' '}自动调整，目标帧率
+        <select
+          value={graphics.targetFps}
+          onChange={(e) => graphicsStore.setTargetFps(Number(e.target.value))}
+          style={{ marginLeft: '4px' }}
+        >
+          {TARGET_FPS_OPTIONS.map((fps) => (
+            <option key={fps} value={fps}>{fps}</option>
+          ))}
+        </select>
+      </label>
+      {graphics.auto && (
+        <p style={{ color: '#88aacc', fontSize: '12px' }}>
+          当前：{QUALITY_LABELS[graphics.quality]}画质，渲染分辨率 {Math.round(graphics.resolutionScale * 100)}%
+        </p>
+      )}
+      <p style={{ marginTop: '5px' }}>后期效果：</p>
+      {POST_EFFECTS.map((effect) => (
+        <label key={effect} style={{ display: 'inline-block', marginRight: '8px', fontSize: '13px' }}>
+          <input
+            type="checkbox"
+            checked={effects[effect]}
+            onChange={(e) => graphicsStore.setEffect(effect, e.target.checked)}
+          />
+          {' '}{POST_EFFECT_LABELS[effect]}
+        </label>
+      ))}
+    </div>
+  );
+};
+
+export default GraphicsPanel;
@@ -0,0 +1,55 @@
+import { SOCKETS } from './assets';
+import type { WeaponModelSpec } from './weapons';
+
+interface GunModelProps {
+  spec: WeaponModelSpec;
+}
+
+// 根据武器外观参数生成的方块枪模型（没有 glTF 武器模型时使用）
+// 枪口节点与 glTF 武器模型同名，由 WeaponModel 统一按名称查找
+const GunModel = ({ spec }: GunModelProps) => {
+  const bodyCenter = 0.1;
+  const front = bodyCenter + spec.bodyLength / 2;
+  const back = bodyCenter - spec.bodyLength / 2;
+
+  return (
+    <group>
+      {/* 枪身 */}
+      <mesh position={[bodyCenter, 0, 0]}>
+        <boxGeometry args={[spec.bodyLength, 0.15, 0.05]} />
+        <meshStandardMaterial color={spec.bodyColor} />
+      </mesh>
+
+      {/* 枪管 */}
+      <mesh position={[front, 0, 0]}>
+        <cylinderGeometry args={[spec.barrelRadius, spec.barrelRadius, spec.barrelLength, 8]} />
+        <meshStandardMaterial color={spec.barrelColor} />
+      </mesh>
+
+      {/* 枪托 */}
+      {spec.stockLength > 0 && (
+        <mesh position={[back + 0.05, 0, 0]}>
+          <boxGeometry args={[spec.stockLength, 0.15, 0.1]} />
+          <meshStandardMaterial color="#333" />
+        </mesh>
+      )}
+
+      {/* 握把 */}
+      <mesh position={[0, -0.1, 0]}>
+        <boxGeometry args={[0.15, 0.15, 0.05]} />
+        <meshStandardMaterial color="#666" />
+      </mesh>
+
+      {/* 扳机 */}
+      <mesh position={[0.2, -0.05, 0]}>
+        <cylinderGeometry args={[0.05, 0.05, 0.06, 8]} />
+        <meshStandardMaterial color="#555" />
+      </mesh>
+
+      {/* 枪口挂点 */}
+      <object3D name={SOCKETS.muzzle} position={[front + spec.barrelLength / 2, 0, 0]} />
+    </group>
+  );
+};
+
+export default GunModel;
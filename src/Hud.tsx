@@ -0,0 +1,137 @@
+import { useEffect, useRef } from 'react';
+import { gameStore, useGameStore } from './gameStore';
+
+const panelStyle: React.CSSProperties = {
+  position: 'absolute',
+  background: 'rgba(10, 15, 35, 0.7)',
+  border: '2px solid #55aaff',
+  borderRadius: '10px',
+  padding: '10px 15px',
+  color: 'white',
+  zIndex: 100,
+  pointerEvents: 'none'
+};
+
+const barStyle: React.CSSProperties = {
+  height: '10px',
+  background: '#333',
+  borderRadius: '5px',
+  overflow: 'hidden'
+};
+
+// 换弹进度条：按模拟时间逐帧填充，暂停时停在当前进度
+const ReloadBar = ({ startedAt, duration }: { startedAt: number; duration: number }) => {
+  const fillRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let frame = 0;
+
+    const tick = () => {
+      const progress = Math.min(1, (gameStore.time - startedAt) / duration);
+      if (fillRef.current) fillRef.current.style.width = `${progress * 100}%`;
+      if (progress < 1) frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, [startedAt, duration]);
+
+  return (
+    <div style={{ ...barStyle, height: '4px', marginTop: '5px' }}>
+      <div ref={fillRef} style={{ width: '0%', height: '100%', background: '#ffaa55' }}></div>
+    </div>
+  );
+};
+
+// 游戏内HUD：生命、弹药、得分连击、波次和Boss血条
+const Hud = () => {
+  const health = useGameStore((state) => state.health);
+  const maxHealth = useGameStore((state) => state.maxHealth);
+  const weapon = useGameStore((state) => state.weapon);
+  const score = useGameStore((state) => state.score);
+  const combo = useGameStore((state) => state.combo);
+  const boss = useGameStore((state) => state.boss);
+  const wave = useGameStore((state) => state.wave);
+  const enemiesRemaining = useGameStore((state) => state.enemiesRemaining);
+
+  const healthRatio = Math.max(0, health / maxHealth);
+  const lowAmmo = !!weapon && weapon.ammo <= Math.ceil(weapon.magazineSize * 0.25);
+
+  return (
+    <>
+      {/* 生命值 */}
+      <div style={{ ...panelStyle, bottom: '20px', left: '50%', transform: 'translateX(-50%)', width: '260px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '5px', fontSize: '14px' }}>
+          <span>生命</span>
+          <span>{Math.ceil(health)} / {maxHealth}</span>
+        </div>
+        <div style={barStyle}>
+          <div style={{
+            width: `${healthRatio * 100}%`,
+            height: '100%',
+            background: healthRatio < 0.3 ? '#ff3366' : '#55ff99',
+            transition: 'width 0.2s'
+          }}></div>
+        </div>
+      </div>
+
+      {/* 弹药 */}
+      {weapon && (
+        <div style={{ ...panelStyle, bottom: '20px', right: '20px', minWidth: '140px', textAlign: 'right' }}>
+          <div style={{ color: '#ffaa55', fontSize: '14px' }}>{weapon.name}</div>
+          <div style={{ fontSize: '28px', fontWeight: 'bold', color: lowAmmo ? '#ff3366' : 'white' }}>
+            {weapon.ammo}
+            <span style={{ fontSize: '16px', color: '#88aacc' }}> / {weapon.magazineSize}</span>
+          </div>
+          {weapon.isReloading && (
+            <>
+              <div style={{ fontSize: '12px', color: '#ffaa55' }}>换弹中…</div>
+              <ReloadBar startedAt={weapon.reloadStartedAt} duration={weapon.reloadTime} />
+            </>
+          )}
+        </div>
+      )}
+
+      {/* 得分与连击 */}
+      <div style={{ ...panelStyle, top: '20px', right: '20px', textAlign: 'right', border: '2px solid #ffaa55' }}>
+        <div style={{ fontSize: '14px', color: '#ffaa55' }}>得分</div>
+        <div style={{ fontSize: '26px', fontWeight: 'bold' }}>{score}</div>
+        {combo > 1 && (
+          <div style={{ fontSize: '16px', color: '#ff55ff' }}>连击 x{combo}</div>
+        )}
+        {wave > 0 && (
+          <div style={{ fontSize: '14px', color: '#ff3366', marginTop: '5px' }}>
+            第 {wave} 波 · 剩余敌人 {enemiesRemaining}
+          </div>
+        )}
+      </div>
+
+      {/* Boss血条 */}
+      {boss && (
+        <div style={{
+          ...panelStyle,
+          top: '20px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          width: '400px',
+          border: '2px solid #ff3366',
+          textAlign: 'center'
+        }}>
+          <div style={{ marginBottom: '5px' }}>
+            {boss.name}{boss.enraged ? '（狂暴）' : ''}
+          </div>
+          <div style={{ ...barStyle, height: '12px' }}>
+            <div style={{
+              width: `${Math.max(0, boss.health / boss.maxHealth) * 100}%`,
+              height: '100%',
+              background: boss.enraged ? '#ff2200' : '#ff3366',
+              transition: 'width 0.2s'
+            }}></div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default Hud;
@@ -0,0 +1,40 @@
+import { useProgress } from '@react-three/drei';
+import { useAssets } from './assets';
+
+// 资源加载界面：检查模型是否存在并预加载，完成前遮住菜单
+const LoadingScreen = () => {
+  const { status } = useAssets();
+  const { active, progress, loaded, total } = useProgress();
+
+  if (status === 'ready' && !active) return null;
+
+  const label = status === 'checking' ? '正在检查资源…' : `正在加载模型 ${loaded} / ${total}`;
+  const percent = status === 'checking' ? 0 : progress;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      inset: 0,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: 'rgba(5, 8, 20, 0.95)',
+      zIndex: 300
+    }}>
+      <div style={{ width: '320px', color: 'white', textAlign: 'center' }}>
+        <h2 style={{ color: '#ffaa55', marginBottom: '15px' }}>张飞骑士冒险</h2>
+        <div style={{ height: '10px', background: '#333', borderRadius: '5px', overflow: 'hidden' }}>
+          <div style={{
+            width: `${percent}%`,
+            height: '100%',
+            background: '#55aaff',
+            transition: 'width 0.2s'
+          }}></div>
+        </div>
+        <p style={{ marginTop: '10px', color: '#88aacc' }}>{label}</p>
+      </div>
+    </div>
+  );
+};
+
+export default LoadingScreen;
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from 'react';
+import ParticleEmitter from './ParticleEmitter';
+import type { ParticleEmitterHandle } from './ParticleEmitter';
+import { EFFECT_PRESETS } from './particlePresets';
+import { effectBus } from './effects';
+import type { EffectKind } from './effects';
+
+// 某一种效果的发射器（位于世界原点，成批发射时直接使用世界坐标）
+const EffectLayer = ({ kind }: { kind: EffectKind }) => {
+  const emitterRef = useRef<ParticleEmitterHandle>(null);
+  const { config, count } = EFFECT_PRESETS[kind];
+
+  useEffect(() => effectBus.register(kind, (position, direction) => {
+    emitterRef.current?.burst(count, position, direction);
+  }), [kind, count]);
+
+  return <ParticleEmitter ref={emitterRef} config={config} streamName={`effect-${kind}`} />;
+};
+
+// 枪口火焰、命中火花和爆炸，由 effectBus 触发
+const ParticleEffects = () => (
+  <>
+    {(Object.keys(EFFECT_PRESETS) as EffectKind[]).map((kind) => (
+      <EffectLayer key={kind} kind={kind} />
+    ))}
+  </>
+);
+
+export default ParticleEffects;
@@ -0,0 +1,274 @@
+import { forwardRef, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { AdditiveBlending, BufferAttribute, BufferGeometry, Color, DynamicDrawUsage, NormalBlending, ShaderMaterial } from 'three';
+import type { Points, Vector3 } from 'three';
+import { useThree } from '@react-three/fiber';
+import { ParticleSystem } from './particles';
+import type { ParticleConfig } from './particles';
+import { GpuParticleSystem, MAX_GRADIENT_STOPS, NO_BOUND } from './gpuParticles';
+import { random } from './random';
+import { FIXED_STEP, useFixedFrame } from './gameLoop';
+
+// 外部触发成批发射（枪口火焰、命中、爆炸等）
+export interface ParticleEmitterHandle {
+  burst: (count: number, position?: Vector3, direction?: Vector3) => void;
+}
+
+interface ParticleEmitterProps {
+  config: ParticleConfig;
+  streamName: string; // 随机序列名，同一种子下效果可复现
+  position?: [number, number, number];
+}
+
+// 圆形柔边的点精灵，大小随距离衰减（与 PointsMaterial 的 sizeAttenuation 一致）
+// 位置按固定步长模拟，绘制时沿速度退回 uLag 秒，得到两步之间的插值位置
+const vertexShader = /* glsl */ `
+  uniform float uScale;
+  uniform float uLag;
+  attribute float particleSize;
+  attribute vec4 particleColor;
+  attribute vec3 particleVelocity;
+  varying vec4 vColor;
+
+  void main() {
+    vColor = particleColor;
+    vec4 mvPosition = modelViewMatrix * vec4(position - particleVelocity * uLag, 1.0);
+    gl_PointSize = particleSize * uScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+// GPU 后端：由出生位置、初速度和出生时间解析计算当前位置与外观
+// 有阻力时速度按 e^(-drag*t) 衰减，与 CPU 后端逐帧乘以 (1 - drag*dt) 近似一致
+const gpuVertexShader = /* glsl */ `
+  uniform float uScale;
+  uniform float uTime;
+  uniform float uGravity;
+  uniform float uDrag;
+  uniform vec2 uBounds;
+  uniform vec3 uColors[MAX_GRADIENT_STOPS];
+  uniform float uSizes[MAX_GRADIENT_STOPS];
+  uniform float uOpacities[MAX_GRADIENT_STOPS];
+  uniform int uColorCount;
+  uniform int uSizeCount;
+  uniform int uOpacityCount;
+  attribute vec3 particleVelocity;
+  attribute vec3 particleTiming; // 出生时间、寿命（循环粒子为周期）、是否循环
+  varying vec4 vColor;
+
+  float gradientPosition(int count, float t, out int index) {
+    float position = clamp(t, 0.0, 1.0) * float(count - 1);
+    index = min(int(floor(position)), count - 2);
+    return position - float(index);
+  }
+
+  float sampleGradient(float values[MAX_GRADIENT_STOPS], int count, float t) {
+    if (count == 1) return values[0];
+    int index;
+    float blend = gradientPosition(count, t, index);
+    return mix(values[index], values[index + 1], blend);
+  }
+
+  vec3 sampleColor(float t) {
+    if (uColorCount == 1) return uColors[0];
+    int index;
+    float blend = gradientPosition(uColorCount, t, index);
+    return mix(uColors[index], uColors[index + 1], blend);
+  }
+
+  void main() {
+    float age = uTime - particleTiming.x;
+    float lifetime = particleTiming.y;
+    if (particleTiming.z > 0.5 && age >= 0.0) age = mod(age, lifetime);
+
+    vec3 acceleration = vec3(0.0, uGravity, 0.0);
+    vec3 offset;
+    if (uDrag > 0.0) {
+      vec3 terminal = acceleration / uDrag;
+      offset = terminal * age + (particleVelocity - terminal) * (1.0 - exp(-uDrag * age)) / uDrag;
+    } else {
+      offset = particleVelocity * age + 0.5 * acceleration * age * age;
+    }
+    vec3 particlePosition = position + offset;
+
+    // 未出生、已消亡或越界的粒子移出裁剪空间
+    if (age < 0.0 || age >= lifetime || particlePosition.y < uBounds.x || particlePosition.y > uBounds.y) {
+      vColor = vec4(0.0);
+      gl_PointSize = 0.0;
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      return;
+    }
+
+    float t = age / lifetime;
+    vColor = vec4(sampleColor(t), sampleGradient(uOpacities, uOpacityCount, t));
+    vec4 mvPosition = modelViewMatrix * vec4(particlePosition, 1.0);
+    gl_PointSize = sampleGradient(uSizes, uSizeCount, t) * uScale / -mvPosition.z;
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const fragmentShader = /* glsl */ `
+  varying vec4 vColor;
+
+  void main() {
+    float distance = length(gl_PointCoord - 0.5);
+    if (distance > 0.5) discard;
+    gl_FragColor = vec4(vColor.rgb, vColor.a * smoothstep(0.5, 0.3, distance));
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
+
+// 关键值补齐到着色器数组长度
+const padGradient = (values: number[]) =>
+  Array.from({ length: MAX_GRADIENT_STOPS }, (_, index) => values[Math.min(index, values.length - 1)] ?? 0);
+
+const createMaterial = (config: ParticleConfig, vertexShader: string, uniforms: ShaderMaterial['uniforms']) =>
+  new ShaderMaterial({
+    uniforms: { uScale: { value: 1 }, ...uniforms },
+    vertexShader,
+    fragmentShader,
+    transparent: true,
+    depthWrite: false,
+    blending: config.blending === 'additive' ? AdditiveBlending : NormalBlending
+  });
+
+// 点大小按画布高度换算为像素
+const usePointScale = (material: ShaderMaterial) => {
+  const { size, viewport } = useThree();
+
+  useEffect(() => {
+    material.uniforms.uScale.value = size.height * 0.5 * viewport.dpr;
+  }, [material, size.height, viewport.dpr]);
+};
+
+// CPU 后端：按固定步长模拟，每帧上传活跃粒子
+const CpuParticles = forwardRef<ParticleEmitterHandle, ParticleEmitterProps>(({
+  config,
+  streamName,
+  position
+}, ref) => {
+  const pointsRef = useRef<Points>(null);
+
+  const system = useMemo(() => new ParticleSystem(config, random.stream(streamName)), [config, streamName]);
+
+  const geometry = useMemo(() => {
+    const geometry = new BufferGeometry();
+    const attributes = {
+      position: new BufferAttribute(system.positions, 3),
+      particleColor: new BufferAttribute(system.colors, 4),
+      particleSize: new BufferAttribute(system.sizes, 1),
+      particleVelocity: new BufferAttribute(system.velocities, 3)
+    };
+    Object.entries(attributes).forEach(([name, attribute]) => {
+      attribute.setUsage(DynamicDrawUsage);
+      geometry.setAttribute(name, attribute);
+    });
+    geometry.setDrawRange(0, system.count);
+    return geometry;
+  }, [system]);
+
+  const material = useMemo(() => createMaterial(config, vertexShader, { uLag: { value: 0 } }), [config]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  usePointScale(material);
+
+  useImperativeHandle(ref, () => ({
+    burst: (count, origin, direction) => system.emit(count, origin, direction)
+  }), [system]);
+
+  useFixedFrame((_, dt) => system.update(dt), (_, alpha, delta) => {
+    geometry.setDrawRange(0, system.count);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.particleColor.needsUpdate = true;
+    geometry.attributes.particleSize.needsUpdate = true;
+    geometry.attributes.particleVelocity.needsUpdate = true;
+    material.uniforms.uLag.value = (1 - alpha) * FIXED_STEP;
+
+    if (config.spin && pointsRef.current) {
+      pointsRef.current.rotation.y += config.spin * delta;
+    }
+  });
+
+  return (
+    <points
+      ref={pointsRef}
+      position={position}
+      geometry={geometry}
+      material={material}
+      frustumCulled={false}
+    />
+  );
+});
+
+// GPU 后端：每步只推进时间，粒子数量可以达到数十万
+const GpuParticles = forwardRef<ParticleEmitterHandle, ParticleEmitterProps>(({
+  config,
+  streamName,
+  position
+}, ref) => {
+  const pointsRef = useRef<Points>(null);
+
+  const system = useMemo(() => new GpuParticleSystem(config, random.stream(streamName)), [config, streamName]);
+
+  const geometry = useMemo(() => {
+    const geometry = new BufferGeometry();
+    geometry.setAttribute('position', system.starts);
+    geometry.setAttribute('particleVelocity', system.velocities);
+    geometry.setAttribute('particleTiming', system.timings);
+    return geometry;
+  }, [system]);
+
+  const material = useMemo(() => {
+    const [minY, maxY] = config.bounds ?? [-NO_BOUND, NO_BOUND];
+    const colors = config.color.slice(0, MAX_GRADIENT_STOPS).map((color) => new Color(color));
+    const material = createMaterial(config, gpuVertexShader, {
+      uTime: { value: 0 },
+      uGravity: { value: config.gravity },
+      uDrag: { value: config.drag ?? 0 },
+      uBounds: { value: [Math.max(minY, -NO_BOUND), Math.min(maxY, NO_BOUND)] },
+      uColors: { value: Array.from({ length: MAX_GRADIENT_STOPS }, (_, index) => colors[Math.min(index, colors.length - 1)]) },
+      uSizes: { value: padGradient(config.size) },
+      uOpacities: { value: padGradient(config.opacity) },
+      uColorCount: { value: colors.length },
+      uSizeCount: { value: Math.min(config.size.length, MAX_GRADIENT_STOPS) },
+      uOpacityCount: { value: Math.min(config.opacity.length, MAX_GRADIENT_STOPS) }
+    });
+    material.defines = { MAX_GRADIENT_STOPS };
+    return material;
+  }, [config]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => material.dispose(), [material]);
+  usePointScale(material);
+
+  useImperativeHandle(ref, () => ({
+    burst: (count, origin, direction) => system.emit(count, origin, direction)
+  }), [system]);
+
+  // 解析计算不依赖步长，绘制时间取两步之间的插值时刻
+  useFixedFrame((_, dt) => system.update(dt), (_, alpha, delta) => {
+    material.uniforms.uTime.value = system.time - (1 - alpha) * FIXED_STEP;
+
+    if (config.spin && pointsRef.current) {
+      pointsRef.current.rotation.y += config.spin * delta;
+    }
+  });
+
+  return (
+    <points
+      ref={pointsRef}
+      position={position}
+      geometry={geometry}
+      material={material}
+      frustumCulled={false}
+    />
+  );
+});
+
+// 通用粒子发射器：按配置持续发射或由外部触发成批发射，按 config.backend 选择在 CPU 或 GPU 上模拟
+const ParticleEmitter = forwardRef<ParticleEmitterHandle, ParticleEmitterProps>((props, ref) =>
+  props.config.backend === 'gpu' ? <GpuParticles ref={ref} {...props} /> : <CpuParticles ref={ref} {...props} />
+);
+
+export default ParticleEmitter;
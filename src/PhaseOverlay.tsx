@@ -0,0 +1,103 @@
+import { gameStore, useGameStore } from './gameStore';
+
+interface PhaseOverlayProps {
+  onRestart: () => void; // 重新开始（重置整个场景）
+  levels: Record<string, string>; // 关卡名 -> 显示名称
+  levelName: string; // 当前关卡
+  onSelectLevel: (name: string) => void;
+  seed: string; // 当前随机种子
+  onNewSeed: () => void;
+}
+
+const buttonStyle: React.CSSProperties = {
+  display: 'block',
+  width: '200px',
+  margin: '10px auto 0',
+  padding: '10px 0',
+  background: '#ff3366',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  fontSize: '18px',
+  cursor: 'pointer'
+};
+
+// 开始菜单、暂停和游戏结束界面
+const PhaseOverlay = ({ onRestart, levels, levelName, onSelectLevel, seed, onNewSeed }: PhaseOverlayProps) => {
+  const phase = useGameStore((state) => state.phase);
+  const score = useGameStore((state) => state.score);
+  const wave = useGameStore((state) => state.wave);
+
+  if (phase === 'playing') return null;
+
+  return (
+    <div style={{
+      position: 'absolute',
+      inset: 0,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: 'rgba(5, 8, 20, 0.6)',
+      zIndex: 200
+    }}>
+      <div style={{
+        minWidth: '320px',
+        padding: '30px 40px',
+        background: 'rgba(10, 15, 35, 0.9)',
+        border: '2px solid #ffaa55',
+        borderRadius: '10px',
+        color: 'white',
+        textAlign: 'center'
+      }}>
+        {phase === 'menu' && (
+          <>
+            <h1 style={{ color: '#ffaa55', fontSize: '32px', marginBottom: '10px' }}>张飞骑士冒险</h1>
+            <p style={{ color: '#55aaff' }}>抵御一波波敌人，击败未知的敌人！</p>
+            <label style={{ display: 'block', marginTop: '15px' }}>
+              关卡：
+              <select
+                value={levelName}
+                onChange={(e) => onSelectLevel(e.target.value)}
+                style={{ padding: '4px 8px', fontSize: '16px' }}
+              >
+                {Object.entries(levels).map(([name, label]) => (
+                  <option key={name} value={name}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <p style={{ marginTop: '10px', color: '#88aacc' }}>
+              种子：<code style={{ color: '#ffaa55' }}>{seed}</code>
+              <button
+                onClick={onNewSeed}
+                style={{ marginLeft: '10px', padding: '2px 8px', cursor: 'pointer' }}
+              >
+                换一个
+              </button>
+            </p>
+            <button style={buttonStyle} onClick={() => gameStore.start()}>开始游戏</button>
+          </>
+        )}
+
+        {phase === 'paused' && (
+          <>
+            <h2 style={{ color: '#ffaa55', fontSize: '28px', marginBottom: '10px' }}>已暂停</h2>
+            <p style={{ color: '#88aacc' }}>按 Esc 继续，点击画面重新锁定鼠标</p>
+            <button style={buttonStyle} onClick={() => gameStore.resume()}>继续游戏</button>
+            <button style={{ ...buttonStyle, background: '#3b7cb1' }} onClick={onRestart}>重新开始</button>
+          </>
+        )}
+
+        {phase === 'gameover' && (
+          <>
+            <h2 style={{ color: '#ff3366', fontSize: '32px', marginBottom: '10px' }}>游戏结束</h2>
+            <p>得分 <strong style={{ color: '#ffaa55', fontSize: '24px' }}>{score}</strong></p>
+            <p>坚持到第 {wave} 波</p>
+            <button style={buttonStyle} onClick={onRestart}>重新开始</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhaseOverlay;
@@ -0,0 +1,83 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { MathUtils } from 'three';
+import {
+  Bloom,
+  ChromaticAberration,
+  DepthOfField,
+  EffectComposer,
+  SMAA,
+  Vignette
+} from '@react-three/postprocessing';
+import type { ChromaticAberrationEffect, DepthOfFieldEffect } from 'postprocessing';
+import { solveAimPoint } from './aim';
+import { gameStore } from './gameStore';
+import { QUALITY_PRESETS, getPostEffects, useGraphics } from './graphics';
+import { useTuning } from './tuning';
+import type { LevelColliders } from './levelColliders';
+
+const HIT_ABERRATION = 0.006; // 受击瞬间的色差偏移（屏幕比例）
+const HIT_ABERRATION_TIME = 0.4; // 色差消退时间（秒）
+const AIM_BOKEH_SCALE = 3; // 瞄准时的景深模糊程度
+const AIM_FOCUS_RANGE = 8; // 焦点前后保持清晰的范围
+const AIM_FOCUS_DISTANCE = 200; // 准星没有指向物体时的对焦距离
+const FOCUS_ORIGIN: [number, number, number] = [0, 0, 0]; // 开启自动对焦，目标每帧更新
+const NO_OFFSET: [number, number] = [0, 0];
+
+interface PostEffectsProps {
+  aiming: boolean; // 瞄准时开启景深
+  colliders: LevelColliders; // 关卡静态碰撞体，用于对焦射线
+}
+
+// 后期处理：各效果按画质档位或运行时开关启用，全部关闭时直接渲染到屏幕
+const PostEffects = ({ aiming, colliders }: PostEffectsProps) => {
+  const graphics = useGraphics();
+  const { bloom } = useTuning();
+  const effects = getPostEffects(graphics);
+  const { msaaSamples } = QUALITY_PRESETS[graphics.quality];
+
+  const aberrationRef = useRef<ChromaticAberrationEffect>(null);
+  const depthOfFieldRef = useRef<DepthOfFieldEffect>(null);
+
+  // 效果参数由帧回调驱动：受击色差按模拟时间衰减，暂停时保持；景深在暂停时也继续过渡
+  useFrame(({ camera }, delta) => {
+    const aberration = aberrationRef.current;
+    if (aberration) {
+      const elapsed = gameStore.time - gameStore.getSnapshot().damagedAt;
+      const strength = Math.max(0, 1 - elapsed / HIT_ABERRATION_TIME);
+      aberration.offset.setScalar(HIT_ABERRATION * strength * strength);
+    }
+
+    const depthOfField = depthOfFieldRef.current;
+    if (depthOfField) {
+      depthOfField.bokehScale = MathUtils.damp(depthOfField.bokehScale, aiming ? AIM_BOKEH_SCALE : 0, 10, delta);
+      // 对焦到准星指向的位置（关卡几何体或敌人，忽略玩家自身）
+      if (aiming && depthOfField.target) {
+        depthOfField.target.copy(solveAimPoint(camera, colliders, AIM_FOCUS_DISTANCE, 0, 'player'));
+      }
+    }
+  });
+
+  if (!Object.values(effects).some(Boolean)) return null;
+
+  return (
+    <EffectComposer multisampling={msaaSamples}>
+      {effects.smaa && <SMAA />}
+      {effects.depthOfField && (
+        <DepthOfField ref={depthOfFieldRef} target={FOCUS_ORIGIN} focusRange={AIM_FOCUS_RANGE} bokehScale={0} />
+      )}
+      {effects.bloom && (
+        <Bloom
+          intensity={bloom.intensity}
+          radius={bloom.radius}
+          luminanceThreshold={bloom.luminanceThreshold}
+          luminanceSmoothing={bloom.luminanceSmoothing}
+        />
+      )}
+      {effects.chromaticAberration && <ChromaticAberration ref={aberrationRef} offset={NO_OFFSET} />}
+      {effects.vignette && <Vignette offset={0.3} darkness={0.6} />}
+    </EffectComposer>
+  );
+};
+
+export default PostEffects;
@@ -0,0 +1,59 @@
+import { useRef } from 'react';
+import { InstancedMesh, Object3D, Vector3, Color } from 'three';
+import { useFrame } from '@react-three/fiber';
+import type { ProjectilePool } from './projectilePool';
+import { FIXED_STEP, fixedClock } from './gameLoop';
+
+interface ProjectilesProps {
+  pool: ProjectilePool;
+  radius?: number;
+  stretch?: number; // 沿飞行方向拉长的倍数，形成拖尾效果
+  intensity?: number; // 颜色亮度倍数，大于1时可触发泛光
+}
+
+const forwardAxis = new Vector3(0, 0, 1);
+const dummy = new Object3D();
+const direction = new Vector3();
+const color = new Color();
+
+// 用一个 InstancedMesh 绘制弹丸池中所有活跃的弹丸
+const Projectiles = ({ pool, radius = 0.05, stretch = 3, intensity = 2 }: ProjectilesProps) => {
+  const meshRef = useRef<InstancedMesh>(null);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    // 弹丸按固定步长推进，绘制时沿飞行方向退回到当前时刻的位置
+    const lag = (1 - fixedClock.alpha) * FIXED_STEP;
+
+    for (let i = 0; i < pool.count; i++) {
+      direction.fromArray(pool.directions, i * 3);
+      dummy.position.fromArray(pool.positions, i * 3).addScaledVector(direction, -pool.speeds[i] * lag);
+      dummy.quaternion.setFromUnitVectors(forwardAxis, direction);
+      dummy.scale.set(radius, radius, radius * stretch);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+
+      color.fromArray(pool.colors, i * 3).multiplyScalar(intensity);
+      mesh.setColorAt(i, color);
+    }
+
+    mesh.count = pool.count;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, pool.capacity]}
+      frustumCulled={false}
+    >
+      <sphereGeometry args={[1, 8, 8]} />
+      <meshBasicMaterial toneMapped={false} />
+    </instancedMesh>
+  );
+};
+
+export default Projectiles;
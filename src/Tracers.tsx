@@ -0,0 +1,59 @@
+import { useRef } from 'react';
+import { AdditiveBlending, Color, InstancedMesh, Object3D, Vector3 } from 'three';
+import { useFrame } from '@react-three/fiber';
+import type { TracerPool } from './tracerPool';
+
+interface TracersProps {
+  pool: TracerPool;
+  width?: number; // 线段粗细（世界单位）
+  intensity?: number; // 颜色亮度倍数，大于1时可触发泛光
+}
+
+const forwardAxis = new Vector3(0, 0, 1);
+const dummy = new Object3D();
+const start = new Vector3();
+const end = new Vector3();
+const direction = new Vector3();
+const color = new Color();
+
+// 用一个 InstancedMesh 绘制曳光池中的所有曳光：沿线段拉长的细长方体，叠加混合下按剩余时间变暗淡出
+const Tracers = ({ pool, width = 0.02, intensity = 2 }: TracersProps) => {
+  const meshRef = useRef<InstancedMesh>(null);
+
+  useFrame(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+
+    for (let i = 0; i < pool.count; i++) {
+      start.fromArray(pool.starts, i * 3);
+      end.fromArray(pool.ends, i * 3);
+      direction.subVectors(end, start);
+      const length = direction.length();
+      dummy.position.lerpVectors(start, end, 0.5);
+      dummy.quaternion.setFromUnitVectors(forwardAxis, direction.divideScalar(length || 1));
+      dummy.scale.set(width, width, length);
+      dummy.updateMatrix();
+      mesh.setMatrixAt(i, dummy.matrix);
+
+      color.fromArray(pool.colors, i * 3).multiplyScalar(intensity * pool.lives[i] / pool.life);
+      mesh.setColorAt(i, color);
+    }
+
+    mesh.count = pool.count;
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      args={[undefined, undefined, pool.capacity]}
+      frustumCulled={false}
+    >
+      <boxGeometry args={[1, 1, 1]} />
+      <meshBasicMaterial toneMapped={false} blending={AdditiveBlending} depthWrite={false} />
+    </instancedMesh>
+  );
+};
+
+export default Tracers;
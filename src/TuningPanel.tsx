@@ -0,0 +1,211 @@
+import { useEffect, useState } from 'react';
+import type { EmitterData } from './level';
+import {
+  BLOOM_FIELDS,
+  EMITTER_FIELDS,
+  LIGHT_FIELDS,
+  SHADOW_MAP_SIZES,
+  applyEmitterOverrides,
+  emitterKey,
+  tuningStore,
+  useTuning
+} from './tuning';
+import type { TuningField } from './tuning';
+
+const TOGGLE_KEY = 'Backquote';
+
+const EMITTER_LABELS: Record<EmitterData['type'], string> = {
+  stars: '星空',
+  waterfall: '瀑布',
+  fountain: '喷泉',
+  custom: '自定义'
+};
+
+const buttonStyle: React.CSSProperties = {
+  padding: '3px 8px',
+  marginRight: '5px',
+  background: '#3b7cb1',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer'
+};
+
+const sectionTitleStyle: React.CSSProperties = {
+  color: '#ffaa55',
+  margin: '12px 0 4px'
+};
+
+// 带数值显示的滑块
+const Slider = ({ field, value, onChange }: { field: TuningField; value: number; onChange: (value: number) => void }) => (
+  <label style={{ display: 'block', fontSize: '12px' }}>
+    {field.label}: {value}
+    <input
+      type="range"
+      min={field.min}
+      max={field.max}
+      step={field.step}
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      style={{ display: 'block', width: '100%' }}
+    />
+  </label>
+);
+
+// 读取发射器（自定义发射器为其粒子配置）中的字段
+const readEmitterField = (emitter: EmitterData, key: string) => {
+  const source: object = emitter.type === 'custom' ? emitter.config : emitter;
+  return (source as Record<string, unknown>)[key];
+};
+
+interface TuningPanelProps {
+  emitters: EmitterData[]; // 当前关卡的发射器（未应用调整前）
+}
+
+// 调试面板：实时调整粒子、光照和泛光参数，可导出/导入 JSON 预设
+const TuningPanel = ({ emitters }: TuningPanelProps) => {
+  const tuning = useTuning();
+  const [open, setOpen] = useState(false);
+  const [presetText, setPresetText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== TOGGLE_KEY) return;
+      e.preventDefault();
+      setOpen((prev) => !prev);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // 打开时释放鼠标锁定以便操作面板
+  useEffect(() => {
+    if (open && document.pointerLockElement) document.exitPointerLock();
+  }, [open]);
+
+  if (!open) return null;
+
+  const handleExport = () => {
+    const json = tuningStore.exportJson();
+    setPresetText(json);
+    setError(null);
+    navigator.clipboard?.writeText(json).catch(() => {
+      // 无剪贴板权限时仍可从文本框手动复制
+    });
+  };
+
+  const handleImport = () => {
+    try {
+      tuningStore.importJson(presetText);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  // 面板内的按键不传给游戏
+  return (
+    <div
+      onKeyDown={(e) => e.stopPropagation()}
+      style={{
+        position: 'absolute',
+        top: '20px',
+        right: '20px',
+        width: '280px',
+        maxHeight: 'calc(100vh - 40px)',
+        overflowY: 'auto',
+        background: 'rgba(10, 15, 35, 0.9)',
+        border: '2px solid #55aaff',
+        borderRadius: '10px',
+        padding: '15px',
+        color: 'white',
+        zIndex: 300
+      }}
+    >
+      <h3 style={{ color: '#55aaff' }}>调试面板</h3>
+      <p style={{ fontSize: '12px', color: '#88aacc' }}>按 ` 键关闭</p>
+
+      <h4 style={sectionTitleStyle}>光照</h4>
+      {LIGHT_FIELDS.map((field) => (
+        <Slider
+          key={field.key}
+          field={field}
+          value={tuning.lights[field.key as 'ambientIntensity' | 'directionalIntensity']}
+          onChange={(value) => tuningStore.setLights({ [field.key]: value })}
+        />
+      ))}
+      <label style={{ display: 'block', fontSize: '12px' }}>
+        阴影贴图尺寸：
+        <select
+          value={tuning.lights.shadowMapSize ?? ''}
+          onChange={(e) => tuningStore.setLights({ shadowMapSize: e.target.value ? Number(e.target.value) : null })}
+        >
+          <option value="">跟随画质</option>
+          {SHADOW_MAP_SIZES.map((size) => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </label>
+
+      <h4 style={sectionTitleStyle}>泛光</h4>
+      {BLOOM_FIELDS.map((field) => (
+        <Slider
+          key={field.key}
+          field={field}
+          value={tuning.bloom[field.key as keyof typeof tuning.bloom]}
+          onChange={(value) => tuningStore.setBloom({ [field.key]: value })}
+        />
+      ))}
+
+      <h4 style={sectionTitleStyle}>粒子</h4>
+      {emitters.map((emitter, index) => {
+        const key = emitterKey(emitter, index);
+        const tuned = applyEmitterOverrides(emitter, tuning.emitters[key]);
+        const backend = readEmitterField(tuned, 'backend') ?? (emitter.type === 'custom' ? 'cpu' : 'gpu');
+
+        return (
+          <div key={key} style={{ marginBottom: '8px', paddingLeft: '8px', borderLeft: '2px solid #3b7cb1' }}>
+            <strong>{EMITTER_LABELS[emitter.type]} #{index + 1}</strong>
+            <label style={{ display: 'block', fontSize: '12px' }}>
+              模拟：
+              <select
+                value={String(backend)}
+                onChange={(e) => tuningStore.setEmitter(key, { backend: e.target.value })}
+              >
+                <option value="cpu">CPU</option>
+                <option value="gpu">GPU</option>
+              </select>
+            </label>
+            {EMITTER_FIELDS[emitter.type].map((field) => (
+              <Slider
+                key={field.key}
+                field={field}
+                value={Number(readEmitterField(tuned, field.key) ?? 0)}
+                onChange={(value) => tuningStore.setEmitter(key, { [field.key]: value })}
+              />
+            ))}
+          </div>
+        );
+      })}
+
+      <h4 style={sectionTitleStyle}>预设</h4>
+      <textarea
+        value={presetText}
+        onChange={(e) => setPresetText(e.target.value)}
+        placeholder="粘贴 JSON 预设后点击导入"
+        rows={6}
+        style={{ width: '100%', fontFamily: 'monospace', fontSize: '11px' }}
+      />
+      {error && <p style={{ color: '#ff3366', fontSize: '12px' }}>导入失败：{error}</p>}
+      <div style={{ marginTop: '5px' }}>
+        <button onClick={handleExport} style={buttonStyle}>导出</button>
+        <button onClick={handleImport} style={buttonStyle}>导入</button>
+        <button onClick={() => tuningStore.reset()} style={{ ...buttonStyle, background: '#ff3366' }}>重置</button>
+      </div>
+    </div>
+  );
+};
+
+export default TuningPanel;
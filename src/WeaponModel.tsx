@@ -0,0 +1,83 @@
+import { forwardRef, useState } from 'react';
+import { MathUtils } from 'three';
+import type { Group, Object3D } from 'three';
+import { createPortal } from '@react-three/fiber';
+import AssetModel from './AssetModel';
+import GunModel from './GunModel';
+import { SOCKETS, findSocket } from './assets';
+import { WEAPONS } from './weapons';
+import type { WeaponId } from './weapons';
+
+interface WeaponModelProps {
+  weapon: WeaponId;
+  position?: [number, number, number];
+  rotation?: [number, number, number];
+  muzzleRef?: React.Ref<Object3D>; // 枪口挂点，用于确定子弹和曳光的起点
+  hands?: boolean; // 第一人称时显示握枪的手
+}
+
+const SKIN_COLOR = '#f0c090';
+
+// 内置的方块手：握把处的手掌和三根手指
+const BoxHands = () => (
+  <group position={[-0.1, -0.1, 0.05]} rotation={[0, 0, MathUtils.degToRad(-20)]}>
+    <mesh position={[0, 0, 0]}>
+      <boxGeometry args={[0.15, 0.1, 0.15]} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+    </mesh>
+
+    <mesh position={[-0.08, 0.06, 0.05]} rotation={[0, 0, MathUtils.degToRad(25)]}>
+      <boxGeometry args={[0.05, 0.1, 0.05]} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+    </mesh>
+
+    <mesh position={[0.05, 0.06, 0.08]} rotation={[0, 0, MathUtils.degToRad(5)]}>
+      <boxGeometry args={[0.05, 0.12, 0.05]} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+    </mesh>
+
+    <mesh position={[0.05, 0.06, -0.02]} rotation={[0, 0, MathUtils.degToRad(5)]}>
+      <boxGeometry args={[0.05, 0.12, 0.05]} />
+      <meshStandardMaterial color={SKIN_COLOR} />
+    </mesh>
+  </group>
+);
+
+// 枪口挂点：在模型中按名称查找 muzzle 节点并挂上引用对象，glTF 模型和方块枪使用同一方式
+const MuzzleSocket = ({ root, muzzleRef }: { root: Object3D; muzzleRef?: React.Ref<Object3D> }) =>
+  createPortal(<object3D ref={muzzleRef} />, findSocket(root, SOCKETS.muzzle));
+
+// 方块枪挂载后再查找其枪口节点
+const BoxGun = ({ weapon, muzzleRef }: { weapon: WeaponId; muzzleRef?: React.Ref<Object3D> }) => {
+  const [root, setRoot] = useState<Group | null>(null);
+
+  return (
+    <group ref={setRoot}>
+      <GunModel spec={WEAPONS[weapon].model} />
+      {root && <MuzzleSocket root={root} muzzleRef={muzzleRef} />}
+    </group>
+  );
+};
+
+// 武器模型：优先使用 glTF 模型，缺失时使用按外观参数生成的方块枪
+// 第三人称和第一人称共用，外层分组的引用用于后坐力和晃动
+const WeaponModel = forwardRef<Group, WeaponModelProps>(({
+  weapon,
+  position,
+  rotation,
+  muzzleRef,
+  hands = false
+}, ref) => (
+  <group ref={ref} position={position} rotation={rotation}>
+    <AssetModel
+      id={weapon}
+      fallback={<BoxGun weapon={weapon} muzzleRef={muzzleRef} />}
+    >
+      {(root) => <MuzzleSocket root={root} muzzleRef={muzzleRef} />}
+    </AssetModel>
+
+    {hands && <AssetModel id="hands" fallback={<BoxHands />} />}
+  </group>
+));
+
+export default WeaponModel;
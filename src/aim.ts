@@ -0,0 +1,48 @@
+import { Raycaster, Vector2, Vector3 } from 'three';
+import type { Camera } from 'three';
+import { damageRegistry } from './damage';
+import type { TargetHit, Team } from './damage';
+import type { LevelColliders } from './levelColliders';
+
+// 瞄准和即时命中只检测关卡静态碰撞体与受击注册表，不遍历场景中的模型
+
+const screenCenter = new Vector2(0, 0);
+const raycaster = new Raycaster();
+
+export interface HitscanResult {
+  end: Vector3; // 射线终点（命中点或最大射程处）
+  normal: Vector3 | null; // 命中面法线，未命中任何物体时为空
+  targetHit: TargetHit | null; // 命中的可受击目标
+}
+
+// 即时命中判定：关卡静态碰撞体挡住后方的目标，再检测受击注册表，取最近者
+export const resolveHitscan = (
+  origin: Vector3,
+  direction: Vector3,
+  range: number,
+  colliders: LevelColliders | null,
+  ignoreTeam?: Team
+): HitscanResult => {
+  const worldHit = colliders?.raycast(origin, direction, range) ?? null;
+  const rangeEnd = origin.clone().addScaledVector(direction, range);
+  const targetHit = damageRegistry.hitTest(origin, worldHit ? worldHit.point : rangeEnd, ignoreTeam);
+
+  if (targetHit) return { end: targetHit.point, normal: targetHit.normal, targetHit };
+  if (!worldHit) return { end: rangeEnd, normal: null, targetHit: null };
+  return { end: worldHit.point, normal: worldHit.normal, targetHit: null };
+};
+
+// 从相机经屏幕中心发射射线，求准星指向的世界坐标
+// minDistance 用于跳过相机与角色之间的物体
+export const solveAimPoint = (
+  camera: Camera,
+  colliders: LevelColliders | null,
+  maxDistance: number,
+  minDistance = 0,
+  ignoreTeam?: Team
+) => {
+  raycaster.setFromCamera(screenCenter, camera);
+  const { direction } = raycaster.ray;
+  const origin = raycaster.ray.at(minDistance, new Vector3());
+  return resolveHitscan(origin, direction, maxDistance - minDistance, colliders, ignoreTeam).end;
+};
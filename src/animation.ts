@@ -0,0 +1,223 @@
+import { Vector3 } from 'three';
+import type { Object3D } from 'three';
+import type { Vec3 } from './level';
+
+// 方块角色的关键帧动画：片段是纯数据，动画器负责片段之间的过渡和叠加
+// 玩家、敌人和 Boss 共用同一套骨骼命名，角色缺少的骨骼直接跳过
+
+export type BoneName = 'body' | 'head' | 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg';
+
+export const BONE_NAMES: BoneName[] = ['body', 'head', 'leftArm', 'rightArm', 'leftLeg', 'rightLeg'];
+
+// 关键帧：相对绑定姿势（模型初始姿势）的偏移，位移和旋转相加，缩放相乘
+export interface BoneKey {
+  time: number; // 秒
+  position?: Vec3;
+  rotation?: Vec3; // 欧拉角（弧度）
+  scale?: Vec3;
+}
+
+export interface AnimationClip {
+  duration: number; // 秒，循环片段的首尾关键帧应相同
+  loop: boolean; // 不循环的片段停在最后一帧，作为叠加片段时播完后淡出
+  fade: number; // 切换到该片段（叠加片段淡入淡出）的过渡时间
+  tracks: Partial<Record<BoneName, BoneKey[]>>;
+}
+
+export type ClipLibrary<Name extends string> = Record<Name, AnimationClip>;
+
+// 骨骼绑定：名称到场景对象，未挂载的引用为 null
+export type RigBones = Partial<Record<BoneName, Object3D | null>>;
+
+type Channel = 'position' | 'rotation' | 'scale';
+
+const CHANNELS: Channel[] = ['position', 'rotation', 'scale'];
+
+interface Layer<Name extends string> {
+  name: Name;
+  clip: AnimationClip;
+  time: number;
+  speed: number;
+  weight: number;
+  stopping: boolean;
+}
+
+interface BonePose {
+  position: Vector3;
+  rotation: Vector3;
+  scale: Vector3;
+}
+
+const ZERO: Vec3 = [0, 0, 0];
+const ONE: Vec3 = [1, 1, 1];
+
+const neutral = (channel: Channel) => (channel === 'scale' ? ONE : ZERO);
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+// 在关键帧之间平滑插值，超出首尾时保持首尾的值
+const sampleChannel = (keys: BoneKey[], channel: Channel, time: number, target: Vector3) => {
+  const next = keys.findIndex((key) => key.time > time);
+  if (next <= 0) {
+    const key = keys[next === 0 ? 0 : keys.length - 1];
+    return target.set(...(key[channel] ?? neutral(channel)));
+  }
+
+  const from = keys[next - 1];
+  const to = keys[next];
+  const t = ease((time - from.time) / (to.time - from.time));
+  const a = from[channel] ?? neutral(channel);
+  const b = to[channel] ?? neutral(channel);
+  return target.set(a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t, a[2] + (b[2] - a[2]) * t);
+};
+
+// 每帧的权重变化量，过渡时间为 0 时立即切换
+const fadeStep = (clip: AnimationClip, delta: number) => (clip.fade > 0 ? delta / clip.fade : 1);
+
+const hasChannel = (keys: BoneKey[], channel: Channel) => keys.some((key) => key[channel]);
+
+const clipTime = ({ clip, time }: Layer<string>) =>
+  clip.loop ? time % clip.duration : Math.min(time, clip.duration);
+
+const sample = new Vector3();
+const pose: BonePose = { position: new Vector3(), rotation: new Vector3(), scale: new Vector3() };
+
+// 动画器：一个基础层（当前片段淡入，之前的片段淡出）加若干叠加层（开火、换弹等只影响部分骨骼的片段）
+// 每帧先 update 推进时间，再 apply 写入骨骼；不触发 React 渲染
+export class Animator<Name extends string> {
+  readonly clips: ClipLibrary<Name>;
+  private base: Layer<Name>[] = []; // 最后一个是当前片段
+  private overlays: Layer<Name>[] = [];
+  private bindPoses = new Map<Object3D, BonePose>();
+
+  constructor(clips: ClipLibrary<Name>) {
+    this.clips = clips;
+  }
+
+  get current(): Name | null {
+    return this.base.length > 0 ? this.base[this.base.length - 1].name : null;
+  }
+
+  // 切换基础片段，已在播放时不重新开始
+  play(name: Name, speed = 1) {
+    const active = this.base[this.base.length - 1];
+    if (active?.name === name) {
+      active.speed = speed;
+      return;
+    }
+
+    // 第一个片段直接到位，之后的片段从 0 淡入
+    this.base = this.base.filter((layer) => layer.name !== name);
+    this.base.push(this.createLayer(name, speed, active ? 0 : 1));
+  }
+
+  // 从头播放叠加片段（已在播放时重新开始）
+  trigger(name: Name, speed = 1) {
+    const existing = this.overlays.find((layer) => layer.name === name);
+    if (existing) {
+      existing.time = 0;
+      existing.speed = speed;
+      existing.stopping = false;
+      return;
+    }
+    this.overlays.push(this.createLayer(name, speed, 0));
+  }
+
+  // 淡出叠加片段
+  stop(name: Name) {
+    const layer = this.overlays.find((overlay) => overlay.name === name);
+    if (layer) layer.stopping = true;
+  }
+
+  update(delta: number) {
+    // 基础层按当前片段的过渡时间交叉淡化
+    const active = this.base[this.base.length - 1];
+    const step = active ? fadeStep(active.clip, delta) : 1;
+    this.base.forEach((layer) => {
+      layer.time += delta * layer.speed;
+      layer.weight = layer === active ? Math.min(1, layer.weight + step) : Math.max(0, layer.weight - step);
+    });
+    this.base = this.base.filter((layer) => layer === active || layer.weight > 0);
+
+    // 不循环的叠加片段播完后淡出
+    this.overlays.forEach((layer) => {
+      layer.time += delta * layer.speed;
+      if (!layer.clip.loop && layer.time >= layer.clip.duration) layer.stopping = true;
+      const step = fadeStep(layer.clip, delta);
+      layer.weight = layer.stopping ? Math.max(0, layer.weight - step) : Math.min(1, layer.weight + step);
+    });
+    this.overlays = this.overlays.filter((layer) => !layer.stopping || layer.weight > 0);
+  }
+
+  // 把混合后的姿势写入骨骼；首次写入时记录骨骼的绑定姿势
+  apply(bones: RigBones) {
+    BONE_NAMES.forEach((bone) => {
+      const object = bones[bone];
+      if (!object) return;
+      const bind = this.bindPose(object);
+
+      this.sampleBase(bone);
+      this.overlays.forEach((layer) => {
+        const keys = layer.clip.tracks[bone];
+        if (!keys || layer.weight <= 0) return;
+        const time = clipTime(layer);
+        CHANNELS.forEach((channel) => {
+          if (!hasChannel(keys, channel)) return;
+          pose[channel].lerp(sampleChannel(keys, channel, time, sample), layer.weight);
+        });
+      });
+
+      object.position.copy(bind.position).add(pose.position);
+      object.rotation.set(
+        bind.rotation.x + pose.rotation.x,
+        bind.rotation.y + pose.rotation.y,
+        bind.rotation.z + pose.rotation.z
+      );
+      object.scale.copy(bind.scale).multiply(pose.scale);
+    });
+  }
+
+  private createLayer(name: Name, speed: number, weight: number): Layer<Name> {
+    return { name, clip: this.clips[name], time: 0, speed, weight, stopping: false };
+  }
+
+  // 基础层按权重加权平均，片段中没有的骨骼和通道视为绑定姿势
+  private sampleBase(bone: BoneName) {
+    pose.position.set(0, 0, 0);
+    pose.rotation.set(0, 0, 0);
+    pose.scale.set(0, 0, 0);
+
+    let total = 0;
+    this.base.forEach((layer) => {
+      if (layer.weight <= 0) return;
+      total += layer.weight;
+      const keys = layer.clip.tracks[bone];
+      const time = clipTime(layer);
+      CHANNELS.forEach((channel) => {
+        if (keys) sampleChannel(keys, channel, time, sample);
+        else sample.set(...neutral(channel));
+        pose[channel].addScaledVector(sample, layer.weight);
+      });
+    });
+
+    if (total > 0) {
+      pose.position.divideScalar(total);
+      pose.rotation.divideScalar(total);
+      pose.scale.divideScalar(total);
+    } else {
+      pose.scale.set(1, 1, 1);
+    }
+  }
+
+  private bindPose(object: Object3D) {
+    let bind = this.bindPoses.get(object);
+    if (!bind) {
+      bind = {
+        position: object.position.clone(),
+        rotation: new Vector3(object.rotation.x, object.rotation.y, object.rotation.z),
+        scale: object.scale.clone()
+      };
+      this.bindPoses.set(object, bind);
+    }
+    return bind;
+  }
+}
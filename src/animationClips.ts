@@ -0,0 +1,302 @@
+import type { BoneKey, ClipLibrary } from './animation';
+import type { Vec3 } from './level';
+
+// 角色动画片段：偏移相对模型的初始姿势，旋转单位为弧度
+
+type Pose = Omit<BoneKey, 'time'>;
+
+// 均匀分布的循环关键帧，末尾补上与第一帧相同的关键帧
+const cycle = (duration: number, poses: Pose[]): BoneKey[] =>
+  [...poses, poses[0]].map((pose, index) => ({ ...pose, time: (duration * index) / poses.length }));
+
+// 静止姿势
+const hold = (pose: Pose): BoneKey[] => [{ time: 0, ...pose }];
+
+// 走路摆动：四个关键帧依次为 中间、前摆、中间、后摆
+const swing = (center: Vec3, amount: number): Pose[] => [
+  { rotation: center },
+  { rotation: [center[0] + amount, center[1], center[2]] },
+  { rotation: center },
+  { rotation: [center[0] - amount, center[1], center[2]] }
+];
+
+const bob = (height: number, amount: number): Pose[] => [
+  { position: [0, height, 0] },
+  { position: [0, height + amount, 0] },
+  { position: [0, height, 0] },
+  { position: [0, height - amount, 0] }
+];
+
+// ---------- 玩家 ----------
+
+export type PlayerClip = 'idle' | 'walk' | 'run' | 'crouch' | 'crouchWalk' | 'jump' | 'land' | 'fire' | 'reload' | 'death';
+
+const GUN_ARM: Vec3 = [0.5, 0, -0.35]; // 持枪手臂向上抬起
+const CROUCH_BODY: Pose = { position: [0, -0.3, 0], scale: [1, 0.7, 1] };
+const CROUCH_ARM_POSITION: Vec3 = [0, -0.2, 0];
+const CROUCH_LEG_POSITION: Vec3 = [0, 0.3, 0];
+const CROUCH_LEFT_ARM: Vec3 = [-0.52, 0, 0];
+const CROUCH_GUN_ARM: Vec3 = [-0.35, 0, -0.35];
+const CROUCH_LEG: Vec3 = [0.79, 0, 0]; // 蹲下时大腿前抬约 45°
+
+// 移动时走路或跑步，蹲下时换为蹲姿，离地时为跳跃；落地、开火和换弹是叠加在上面的一次性片段
+export const PLAYER_CLIPS: ClipLibrary<PlayerClip> = {
+  idle: {
+    duration: 2,
+    loop: true,
+    fade: 0.2,
+    tracks: {
+      body: cycle(2, [{ position: [0, 0, 0] }, { position: [0, 0.015, 0] }]),
+      rightArm: hold({ rotation: GUN_ARM })
+    }
+  },
+  walk: {
+    duration: 1,
+    loop: true,
+    fade: 0.15,
+    tracks: {
+      body: cycle(1, bob(0, 0.015)),
+      leftArm: cycle(1, swing([0, 0, 0], 0.2)),
+      rightArm: cycle(1, swing(GUN_ARM, -0.2)),
+      leftLeg: cycle(1, swing([0, 0, 0], 0.2)),
+      rightLeg: cycle(1, swing([0, 0, 0], -0.2))
+    }
+  },
+  run: {
+    duration: 0.78,
+    loop: true,
+    fade: 0.15,
+    tracks: {
+      body: cycle(0.78, bob(0, 0.02)),
+      leftArm: cycle(0.78, swing([0, 0, 0], 0.3)),
+      rightArm: cycle(0.78, swing(GUN_ARM, -0.3)),
+      leftLeg: cycle(0.78, swing([0, 0, 0], 0.3)),
+      rightLeg: cycle(0.78, swing([0, 0, 0], -0.3))
+    }
+  },
+  crouch: {
+    duration: 1,
+    loop: false,
+    fade: 0.12,
+    tracks: {
+      body: hold(CROUCH_BODY),
+      leftArm: hold({ position: CROUCH_ARM_POSITION, rotation: CROUCH_LEFT_ARM }),
+      rightArm: hold({ position: CROUCH_ARM_POSITION, rotation: CROUCH_GUN_ARM }),
+      leftLeg: hold({ position: CROUCH_LEG_POSITION, rotation: CROUCH_LEG }),
+      rightLeg: hold({ position: CROUCH_LEG_POSITION, rotation: CROUCH_LEG })
+    }
+  },
+  crouchWalk: {
+    duration: 0.9,
+    loop: true,
+    fade: 0.12,
+    tracks: {
+      body: hold(CROUCH_BODY),
+      leftArm: hold({ position: CROUCH_ARM_POSITION, rotation: CROUCH_LEFT_ARM }),
+      rightArm: hold({ position: CROUCH_ARM_POSITION, rotation: CROUCH_GUN_ARM }),
+      leftLeg: cycle(0.9, swing(CROUCH_LEG, 0.2).map((pose) => ({ ...pose, position: CROUCH_LEG_POSITION }))),
+      rightLeg: cycle(0.9, swing(CROUCH_LEG, -0.2).map((pose) => ({ ...pose, position: CROUCH_LEG_POSITION })))
+    }
+  },
+  jump: {
+    duration: 0.3,
+    loop: false,
+    fade: 0.15,
+    tracks: {
+      leftArm: hold({ rotation: [-0.6, 0, 0.2] }),
+      rightArm: hold({ rotation: GUN_ARM }),
+      leftLeg: hold({ rotation: [-0.5, 0, 0] }),
+      rightLeg: hold({ rotation: [0.3, 0, 0] })
+    }
+  },
+  // 落地时身体下沉、腿部弯曲
+  land: {
+    duration: 0.3,
+    loop: false,
+    fade: 0.05,
+    tracks: {
+      body: [
+        { time: 0, position: [0, 0, 0] },
+        { time: 0.08, position: [0, -0.15, 0] },
+        { time: 0.3, position: [0, 0, 0] }
+      ],
+      leftLeg: [
+        { time: 0, rotation: [0, 0, 0] },
+        { time: 0.08, rotation: [0.35, 0, 0] },
+        { time: 0.3, rotation: [0, 0, 0] }
+      ],
+      rightLeg: [
+        { time: 0, rotation: [0, 0, 0] },
+        { time: 0.08, rotation: [0.35, 0, 0] },
+        { time: 0.3, rotation: [0, 0, 0] }
+      ]
+    }
+  },
+  // 持枪手臂随后坐力上抬（枪的后坐由武器的后坐力曲线驱动）
+  fire: {
+    duration: 0.2,
+    loop: false,
+    fade: 0.03,
+    tracks: {
+      rightArm: [
+        { time: 0, rotation: GUN_ARM },
+        { time: 0.05, rotation: [GUN_ARM[0] + 0.25, GUN_ARM[1], GUN_ARM[2]] },
+        { time: 0.2, rotation: GUN_ARM }
+      ]
+    }
+  },
+  // 时长按武器的换弹时间缩放
+  reload: {
+    duration: 1,
+    loop: false,
+    fade: 0.1,
+    tracks: {
+      leftArm: [
+        { time: 0, rotation: [0, 0, 0] },
+        { time: 0.25, rotation: [-0.9, 0, -0.4] },
+        { time: 0.75, rotation: [-0.9, 0, -0.4] },
+        { time: 1, rotation: [0, 0, 0] }
+      ],
+      rightArm: [
+        { time: 0, rotation: GUN_ARM },
+        { time: 0.25, rotation: [0.1, 0, -0.35] },
+        { time: 0.75, rotation: [0.1, 0, -0.35] },
+        { time: 1, rotation: GUN_ARM }
+      ]
+    }
+  },
+  // 倒地由角色整体旋转完成，这里只摊开四肢
+  death: {
+    duration: 0.5,
+    loop: false,
+    fade: 0.2,
+    tracks: {
+      leftArm: hold({ rotation: [0, 0, -0.6] }),
+      rightArm: hold({ rotation: [0, 0, 0.6] }),
+      leftLeg: hold({ rotation: [0, 0, -0.2] }),
+      rightLeg: hold({ rotation: [0, 0, 0.2] })
+    }
+  }
+};
+
+// ---------- 敌人 ----------
+
+export type EnemyClip = 'idle' | 'walk' | 'flee' | 'guard' | 'attack' | 'death';
+
+const ENEMY_STRIDE = 0.63; // 走路周期（秒）
+
+export const ENEMY_CLIPS: ClipLibrary<EnemyClip> = {
+  idle: {
+    duration: 2.4,
+    loop: true,
+    fade: 0.2,
+    tracks: {
+      leftArm: cycle(2.4, [{ rotation: [0, 0, 0] }, { rotation: [0.08, 0, 0] }]),
+      rightArm: cycle(2.4, [{ rotation: [0, 0, 0] }, { rotation: [0.08, 0, 0] }])
+    }
+  },
+  walk: {
+    duration: ENEMY_STRIDE,
+    loop: true,
+    fade: 0.15,
+    tracks: {
+      leftArm: cycle(ENEMY_STRIDE, swing([0, 0, 0], -0.6)),
+      rightArm: cycle(ENEMY_STRIDE, swing([0, 0, 0], 0.6)),
+      leftLeg: cycle(ENEMY_STRIDE, swing([0, 0, 0], 0.6)),
+      rightLeg: cycle(ENEMY_STRIDE, swing([0, 0, 0], -0.6))
+    }
+  },
+  // 双手举过头顶逃跑
+  flee: {
+    duration: ENEMY_STRIDE,
+    loop: true,
+    fade: 0.15,
+    tracks: {
+      leftArm: hold({ rotation: [-2.5, 0, 0] }),
+      rightArm: hold({ rotation: [-2.5, 0, 0] }),
+      leftLeg: cycle(ENEMY_STRIDE, swing([0, 0, 0], 0.6)),
+      rightLeg: cycle(ENEMY_STRIDE, swing([0, 0, 0], -0.6))
+    }
+  },
+  // 攻击距离内双手微抬，等待下一次挥击
+  guard: {
+    duration: 1,
+    loop: false,
+    fade: 0.15,
+    tracks: {
+      leftArm: hold({ rotation: [-0.3, 0, 0] }),
+      rightArm: hold({ rotation: [-0.3, 0, 0] })
+    }
+  },
+  // 抬手挥下（叠加在待攻击姿势上）
+  attack: {
+    duration: 0.48,
+    loop: false,
+    fade: 0.05,
+    tracks: {
+      leftArm: [
+        { time: 0, rotation: [-1.87, 0, 0] },
+        { time: 0.48, rotation: [-0.3, 0, 0] }
+      ],
+      rightArm: [
+        { time: 0, rotation: [-1.87, 0, 0] },
+        { time: 0.48, rotation: [-0.3, 0, 0] }
+      ]
+    }
+  },
+  // 倒下由角色整体旋转完成，手臂随之前伸
+  death: {
+    duration: 0.5,
+    loop: false,
+    fade: 0.2,
+    tracks: {
+      leftArm: hold({ rotation: [-0.6, 0, 0] }),
+      rightArm: hold({ rotation: [-0.6, 0, 0] })
+    }
+  }
+};
+
+// ---------- Boss ----------
+
+export type BossClip = 'idle' | 'enraged' | 'charge' | 'death';
+
+export const BOSS_CLIPS: ClipLibrary<BossClip> = {
+  idle: {
+    duration: Math.PI,
+    loop: true,
+    fade: 0.3,
+    tracks: {
+      leftArm: cycle(Math.PI, swing([0, 0, 0], 0.3)),
+      rightArm: cycle(Math.PI, swing([0, 0, 0], -0.3))
+    }
+  },
+  // 狂暴时手臂摆动加快
+  enraged: {
+    duration: Math.PI / 4,
+    loop: true,
+    fade: 0.3,
+    tracks: {
+      leftArm: cycle(Math.PI / 4, swing([0, 0, 0], 0.3)),
+      rightArm: cycle(Math.PI / 4, swing([0, 0, 0], -0.3))
+    }
+  },
+  // 冲锋时双臂前伸
+  charge: {
+    duration: 1,
+    loop: false,
+    fade: 0.15,
+    tracks: {
+      leftArm: hold({ rotation: [-Math.PI / 2, 0, 0] }),
+      rightArm: hold({ rotation: [-Math.PI / 2, 0, 0] })
+    }
+  },
+  death: {
+    duration: 1,
+    loop: false,
+    fade: 0.4,
+    tracks: {
+      leftArm: hold({ rotation: [0, 0, -0.5] }),
+      rightArm: hold({ rotation: [0, 0, 0.5] })
+    }
+  }
+};
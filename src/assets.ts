@@ -0,0 +1,88 @@
+import { useSyncExternalStore } from 'react';
+import { useGLTF } from '@react-three/drei';
+import type { Object3D } from 'three';
+import { WEAPON_ORDER } from './weapons';
+import type { WeaponId } from './weapons';
+
+// glTF 模型资源：放在 public/models 下即可替换内置的方块模型，缺失或加载失败时使用方块模型
+export type ModelId = 'player' | 'hands' | WeaponId;
+
+const MODEL_DIR = `${import.meta.env.BASE_URL}models/`;
+
+export const MODEL_URLS: Record<ModelId, string> = {
+  player: `${MODEL_DIR}player.glb`,
+  hands: `${MODEL_DIR}hands.glb`,
+  ...Object.fromEntries(WEAPON_ORDER.map((id) => [id, `${MODEL_DIR}weapons/${id}.glb`])) as Record<WeaponId, string>
+};
+
+// 挂点：模型中按名称查找的节点
+// 角色模型的骨骼节点与动画骨骼同名（body、head、leftArm ...），武器挂在 weaponSocket 上；武器模型的枪口为 muzzle
+export const SOCKETS = {
+  weapon: 'weaponSocket',
+  muzzle: 'muzzle'
+} as const;
+
+// 按名称查找挂点，找不到时挂在模型根节点上
+export const findSocket = (root: Object3D, name: string) => root.getObjectByName(name) ?? root;
+
+export type AssetStatus = 'checking' | 'ready';
+
+export interface AssetState {
+  status: AssetStatus;
+  available: Partial<Record<ModelId, boolean>>; // 存在的模型，未列出的使用方块模型
+}
+
+// 只有 glTF 或二进制内容类型才视为模型存在：开发服务器和很多静态托管对不存在的路径
+// 返回 200 的 index.html（SPA 回退），也可能是其他错误页，只排除 text/html 不够可靠
+const isModelContentType = (contentType: string | null) =>
+  !!contentType && (contentType.startsWith('model/gltf') || contentType.startsWith('application/octet-stream'));
+
+const probe = async (url: string) => {
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    return response.ok && isModelContentType(response.headers.get('content-type'));
+  } catch {
+    return false;
+  }
+};
+
+// 资源存储：启动时检查哪些模型存在并预加载，加载进度由 drei 的 useProgress 提供
+class AssetStore {
+  private state: AssetState = { status: 'checking', available: {} };
+  private listeners = new Set<() => void>();
+  private started = false;
+
+  getSnapshot = () => this.state;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // 只执行一次，重新开局时不会重复检查
+  async load() {
+    if (this.started) return;
+    this.started = true;
+
+    const ids = Object.keys(MODEL_URLS) as ModelId[];
+    const found = await Promise.all(ids.map((id) => probe(MODEL_URLS[id])));
+    const available: Partial<Record<ModelId, boolean>> = {};
+    ids.forEach((id, index) => {
+      if (!found[index]) return;
+      available[id] = true;
+      useGLTF.preload(MODEL_URLS[id]);
+    });
+    this.update({ status: 'ready', available });
+  }
+
+  private update(partial: Partial<AssetState>) {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const assetStore = new AssetStore();
+
+export const useAssets = () => useSyncExternalStore(assetStore.subscribe, assetStore.getSnapshot);
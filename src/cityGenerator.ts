@@ -0,0 +1,162 @@
+import { createStream } from './random';
+import type { Random } from './random';
+import type { EnemySpawner, HazardData, LevelGeometry, LevelData, PickupData, Vec3 } from './level';
+
+interface CityOptions {
+  size: number; // 地图边长
+  blocks: number; // 每边街区数（奇数，正中间的街区为中央广场）
+  streetWidth: number;
+}
+
+const DEFAULT_OPTIONS: CityOptions = {
+  size: 120,
+  blocks: 5,
+  streetWidth: 6
+};
+
+const GROUND_Y = -2;
+const PLAZA_RADIUS = 8;
+const PLAZA_HEIGHT = 1;
+const PARK_CHANCE = 0.15; // 街区为公园（无建筑，有拾取物）的概率
+const LOT_FILL_CHANCE = 0.8; // 地块上有建筑的概率
+const BUILDING_MATERIALS = ['concrete', 'brick', 'glass'];
+
+// 街区内的建筑群：街区分为 2x2 地块，越靠近市中心的建筑越高
+const buildCluster = (rng: Random, x: number, z: number, blockSize: number, downtown: number): LevelGeometry[] => {
+  const lot = blockSize / 2;
+  const buildings: LevelGeometry[] = [];
+
+  for (const [lx, lz] of [[-1, -1], [1, -1], [-1, 1], [1, 1]]) {
+    if (!rng.chance(LOT_FILL_CHANCE)) continue;
+
+    const width = lot * rng.range(0.5, 0.85);
+    const depth = lot * rng.range(0.5, 0.85);
+    const height = rng.range(4, 8) + downtown * rng.range(4, 10);
+    const jitter = (lot - Math.max(width, depth)) / 2;
+
+    buildings.push({
+      type: 'box',
+      position: [
+        x + (lx * lot) / 2 + rng.spread(jitter),
+        GROUND_Y + height / 2,
+        z + (lz * lot) / 2 + rng.spread(jitter)
+      ],
+      size: [width, height, depth],
+      material: rng.pick(BUILDING_MATERIALS)
+    });
+  }
+
+  return buildings;
+};
+
+// 按种子程序化生成城市关卡：网格状街道、街区建筑群、公园和中央广场
+export const generateCity = (seed: string, options: Partial<CityOptions> = {}): LevelData => {
+  const { size, blocks, streetWidth } = { ...DEFAULT_OPTIONS, ...options };
+  const rng = createStream(seed, 'city');
+  const blockSize = (size - streetWidth * (blocks + 1)) / blocks;
+  const center = Math.floor(blocks / 2);
+
+  // 第 i 个街区中心、第 k 条街道中线的坐标
+  const blockCenter = (i: number) => -size / 2 + streetWidth + blockSize / 2 + i * (blockSize + streetWidth);
+  const streetCenter = (k: number) => -size / 2 + streetWidth / 2 + k * (blockSize + streetWidth);
+
+  const geometry: LevelGeometry[] = [];
+  const pickups: PickupData[] = [];
+  const hazards: HazardData[] = [];
+
+  // 中央广场
+  const plazaRadius = Math.min(PLAZA_RADIUS, blockSize / 2);
+  const plazaTop = GROUND_Y + PLAZA_HEIGHT;
+  geometry.push({
+    type: 'cylinder',
+    position: [0, GROUND_Y + PLAZA_HEIGHT / 2, 0],
+    radius: plazaRadius,
+    height: PLAZA_HEIGHT,
+    segments: 32,
+    material: 'plaza'
+  });
+  pickups.push(
+    { id: 'plaza-health', type: 'health', position: [plazaRadius - 1.5, plazaTop + 0.8, 0], amount: 25, respawnTime: 20 },
+    { id: 'plaza-ammo', type: 'ammo', position: [-(plazaRadius - 1.5), plazaTop + 0.8, 0], amount: 30, respawnTime: 20 }
+  );
+
+  for (let i = 0; i < blocks; i++) {
+    for (let j = 0; j < blocks; j++) {
+      if (i === center && j === center) continue;
+
+      const x = blockCenter(i);
+      const z = blockCenter(j);
+
+      if (rng.chance(PARK_CHANCE)) {
+        // 公园：草地上放一个拾取物，可能有一片危险区域
+        geometry.push({
+          type: 'box',
+          position: [x, GROUND_Y + 0.1, z],
+          size: [blockSize, 0.2, blockSize],
+          material: 'park'
+        });
+        pickups.push({
+          id: `park-${i}-${j}`,
+          type: rng.pick(['health', 'ammo'] as const),
+          position: [x, GROUND_Y + 1, z],
+          amount: rng.pick([25, 50]),
+          respawnTime: 30
+        });
+        if (rng.chance(0.5)) {
+          const radius = rng.range(1.5, 3);
+          const offset = blockSize / 2 - radius - 1;
+          hazards.push({
+            position: [x + rng.spread(offset * 2), GROUND_Y + 0.2, z + rng.spread(offset * 2)],
+            radius,
+            damage: 10
+          });
+        }
+        continue;
+      }
+
+      const distance = Math.max(Math.abs(i - center), Math.abs(j - center));
+      geometry.push(...buildCluster(rng, x, z, blockSize, 1 - distance / (center + 1)));
+    }
+  }
+
+  // 敌人从内部街道通向地图边缘的路口涌入
+  const edge = size / 2 - 3;
+  const enemySpawners: EnemySpawner[] = [];
+  for (let k = 1; k < blocks; k++) {
+    const street = streetCenter(k);
+    enemySpawners.push(
+      { position: [street, -edge], size: [streetWidth - 2, 0] },
+      { position: [street, edge], size: [streetWidth - 2, 0] },
+      { position: [-edge, street], size: [0, streetWidth - 2] },
+      { position: [edge, street], size: [0, streetWidth - 2] }
+    );
+  }
+
+  // Boss 守在广场东北角的十字路口
+  const boss: Vec3 = [streetCenter(center + 1), GROUND_Y, streetCenter(center)];
+
+  return {
+    name: `随机城市 #${seed}`,
+    ground: { size, y: GROUND_Y, material: 'asphalt' },
+    materials: {
+      asphalt: { color: '#2b2b30', roughness: 0.9, metalness: 0.1 },
+      concrete: { color: '#8a8a8a', roughness: 0.8, metalness: 0.2 },
+      brick: { color: '#8a5a3b', roughness: 0.85, metalness: 0.1 },
+      glass: { color: '#5577aa', roughness: 0.2, metalness: 0.6 },
+      park: { color: '#1a5c1a', roughness: 0.8, metalness: 0.2 },
+      plaza: { color: '#7d6608', roughness: 0.6, metalness: 0.4 }
+    },
+    geometry,
+    spawnPoints: {
+      player: [0, plazaTop + 2, 0],
+      boss
+    },
+    enemySpawners,
+    pickups,
+    hazards,
+    emitters: [
+      { type: 'stars', count: 2000, size: 0.5, rotationSpeed: 0.0002, spread: 240 },
+      { type: 'fountain', position: [0, plazaTop, 0], count: 800, size: 1.8, power: 0.35, height: 15 }
+    ]
+  };
+};
@@ -0,0 +1,234 @@
+import { useEffect, useRef } from 'react';
+import { Box3, Ray, Raycaster, Sphere, Vector3 } from 'three';
+import type { Object3D } from 'three';
+
+// 受击判定形状
+export type Hitbox =
+  | { type: 'box'; size?: [number, number, number] } // 不指定尺寸时使用物体包围盒
+  | { type: 'sphere'; radius: number }
+  | { type: 'mesh' }; // 逐三角形精确检测
+
+// 阵营：同阵营的攻击不会互相命中
+export type Team = 'player' | 'enemy';
+
+export const PLAYER_ID = 'player'; // 玩家在注册表中的ID
+
+export interface DamageableTarget {
+  id: string;
+  object: Object3D;
+  health: number;
+  maxHealth: number;
+  armor: number; // 护甲值，伤害按 100 / (100 + armor) 减免
+  hitbox: Hitbox;
+  team?: Team;
+  isInvulnerable?: () => boolean; // 无敌时忽略伤害（如受击后的无敌帧）
+  onHit?: (event: HitEvent) => void;
+}
+
+// 一次命中产生的事件
+export interface HitEvent {
+  targetId: string;
+  damage: number; // 护甲减免后的实际伤害
+  point: Vector3; // 命中点（世界坐标）
+  normal: Vector3; // 命中面法线（世界坐标）
+  weapon: string; // 造成伤害的武器
+  remainingHealth: number;
+  killed: boolean;
+}
+
+export interface TargetHit {
+  target: DamageableTarget;
+  point: Vector3;
+  normal: Vector3;
+  distance: number;
+}
+
+const tempBox = new Box3();
+const tempSphere = new Sphere();
+const tempRay = new Ray();
+const tempCenter = new Vector3();
+const tempDirection = new Vector3();
+const tempPoint = new Vector3();
+const raycaster = new Raycaster();
+
+// 根据命中点相对盒子中心的位置推算所在面的法线
+const boxNormal = (box: Box3, point: Vector3) => {
+  box.getCenter(tempCenter);
+  const half = box.getSize(new Vector3()).multiplyScalar(0.5);
+  const local = point.clone().sub(tempCenter);
+  const nx = Math.abs(local.x) / (half.x || 1);
+  const ny = Math.abs(local.y) / (half.y || 1);
+  const nz = Math.abs(local.z) / (half.z || 1);
+
+  if (nx >= ny && nx >= nz) return new Vector3(Math.sign(local.x) || 1, 0, 0);
+  if (ny >= nz) return new Vector3(0, Math.sign(local.y) || 1, 0);
+  return new Vector3(0, 0, Math.sign(local.z) || 1);
+};
+
+class DamageRegistry {
+  private targets = new Map<string, DamageableTarget>();
+
+  register(target: DamageableTarget) {
+    this.targets.set(target.id, target);
+    return () => this.unregister(target.id);
+  }
+
+  unregister(id: string) {
+    this.targets.delete(id);
+  }
+
+  get(id: string) {
+    return this.targets.get(id);
+  }
+
+  all() {
+    return [...this.targets.values()];
+  }
+
+  // 检测线段 from -> to 命中的最近目标（已死亡和 ignoreTeam 阵营的目标不参与检测）
+  hitTest(from: Vector3, to: Vector3, ignoreTeam?: Team): TargetHit | null {
+    const direction = tempDirection.subVectors(to, from);
+    const length = direction.length();
+    if (length === 0) return null;
+    direction.divideScalar(length);
+    tempRay.set(from, direction);
+
+    let closest: TargetHit | null = null;
+
+    for (const target of this.targets.values()) {
+      if (target.health <= 0 || (ignoreTeam && target.team === ignoreTeam)) continue;
+      const hit = this.intersect(target, direction);
+      if (hit && hit.distance <= length && (!closest || hit.distance < closest.distance)) {
+        closest = hit;
+      }
+    }
+
+    return closest;
+  }
+
+  // 对目标结算伤害并通知目标
+  applyDamage(hit: TargetHit, baseDamage: number, weapon: string): HitEvent {
+    const { target } = hit;
+    const blocked = target.health <= 0 || !!target.isInvulnerable?.();
+    const damage = blocked ? 0 : baseDamage * (100 / (100 + Math.max(0, target.armor)));
+    target.health = Math.max(0, target.health - damage);
+
+    const event: HitEvent = {
+      targetId: target.id,
+      damage,
+      point: hit.point,
+      normal: hit.normal,
+      weapon,
+      remainingHealth: target.health,
+      killed: target.health <= 0
+    };
+
+    if (!blocked && target.onHit) target.onHit(event);
+    return event;
+  }
+
+  // 直接对指定目标结算伤害，用于近战、坠落、环境等没有射线命中的来源
+  // 法线指向伤害来源的水平方向
+  applyDirectDamage(id: string, baseDamage: number, weapon: string, source: Vector3): HitEvent | null {
+    const target = this.targets.get(id);
+    if (!target) return null;
+
+    const point = target.object.getWorldPosition(new Vector3());
+    const normal = source.clone().sub(point).setY(0);
+    if (normal.lengthSq() > 0) normal.normalize();
+    return this.applyDamage({ target, point, normal, distance: point.distanceTo(source) }, baseDamage, weapon);
+  }
+
+  // 恢复满生命值（重生）
+  revive(id: string) {
+    const target = this.targets.get(id);
+    if (target) target.health = target.maxHealth;
+  }
+
+  // 恢复生命值（不超过上限），返回恢复后的生命值
+  heal(id: string, amount: number) {
+    const target = this.targets.get(id);
+    if (!target || target.health <= 0) return null;
+    target.health = Math.min(target.maxHealth, target.health + amount);
+    return target.health;
+  }
+
+  private intersect(target: DamageableTarget, direction: Vector3): TargetHit | null {
+    const { object, hitbox } = target;
+
+    if (hitbox.type === 'sphere') {
+      object.getWorldPosition(tempSphere.center);
+      tempSphere.radius = hitbox.radius;
+      if (!tempRay.intersectSphere(tempSphere, tempPoint)) return null;
+      const point = tempPoint.clone();
+      const normal = point.clone().sub(tempSphere.center).normalize();
+      return { target, point, normal, distance: point.distanceTo(tempRay.origin) };
+    }
+
+    if (hitbox.type === 'box') {
+      if (hitbox.size) {
+        object.getWorldPosition(tempCenter);
+        tempBox.setFromCenterAndSize(tempCenter, new Vector3(...hitbox.size));
+      } else {
+        tempBox.setFromObject(object);
+      }
+      if (!tempRay.intersectBox(tempBox, tempPoint)) return null;
+      const point = tempPoint.clone();
+      return { target, point, normal: boxNormal(tempBox, point), distance: point.distanceTo(tempRay.origin) };
+    }
+
+    raycaster.set(tempRay.origin, direction);
+    const [intersection] = raycaster.intersectObject(object, true);
+    if (!intersection) return null;
+
+    const normal = intersection.face
+      ? intersection.face.normal.clone().transformDirection(intersection.object.matrixWorld)
+      : direction.clone().negate();
+    return { target, point: intersection.point, normal, distance: intersection.distance };
+  }
+}
+
+// 全局受击目标注册表
+export const damageRegistry = new DamageRegistry();
+
+interface DamageableOptions {
+  id: string;
+  maxHealth: number;
+  armor?: number;
+  hitbox?: Hitbox;
+  team?: Team;
+  isInvulnerable?: () => boolean;
+  onHit?: (event: HitEvent) => void;
+}
+
+// 将物体注册为可受击目标，卸载时自动移除
+export const useDamageable = (
+  ref: React.RefObject<Object3D | null>,
+  { id, maxHealth, armor = 0, hitbox = { type: 'box' }, team, isInvulnerable, onHit }: DamageableOptions
+) => {
+  const onHitRef = useRef(onHit);
+  onHitRef.current = onHit;
+  const isInvulnerableRef = useRef(isInvulnerable);
+  isInvulnerableRef.current = isInvulnerable;
+  // hitbox通常是每次渲染新建的字面量，保存在 ref 中按需读取，不触发重新注册
+  const hitboxRef = useRef(hitbox);
+  hitboxRef.current = hitbox;
+
+  useEffect(() => {
+    if (!ref.current) return;
+
+    return damageRegistry.register({
+      id,
+      object: ref.current,
+      health: maxHealth,
+      maxHealth,
+      armor,
+      get hitbox() {
+        return hitboxRef.current;
+      },
+      team,
+      isInvulnerable: () => !!isInvulnerableRef.current?.(),
+      onHit: (event) => onHitRef.current?.(event)
+    });
+  }, [ref, id, maxHealth, armor, team]);
+};
@@ -0,0 +1,25 @@
+import type { Vector3 } from 'three';
+
+// 一次性粒子效果
+export type EffectKind = 'muzzleFlash' | 'impact' | 'explosion';
+
+type EffectHandler = (position: Vector3, direction?: Vector3) => void;
+
+// 粒子效果总线：游戏逻辑只管在哪里触发，由场景中的发射器负责绘制
+class EffectBus {
+  private handlers = new Map<EffectKind, EffectHandler>();
+
+  register(kind: EffectKind, handler: EffectHandler) {
+    this.handlers.set(kind, handler);
+    return () => {
+      if (this.handlers.get(kind) === handler) this.handlers.delete(kind);
+    };
+  }
+
+  // direction 为枪口朝向或命中面法线，爆炸等无方向的效果可省略
+  spawn(kind: EffectKind, position: Vector3, direction?: Vector3) {
+    this.handlers.get(kind)?.(position, direction);
+  }
+}
+
+export const effectBus = new EffectBus();
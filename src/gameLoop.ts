@@ -0,0 +1,104 @@
+import { useFrame } from '@react-three/fiber';
+import type { RootState } from '@react-three/fiber';
+import { Vector3 } from 'three';
+import { gameStore } from './gameStore';
+
+export const FIXED_STEP = 1 / 60; // 模拟步长（秒），与显示器刷新率无关
+const MAX_FRAME_TIME = 0.25; // 单帧最多补算的时间，卡顿后不会为了追赶而越来越慢
+
+// 游戏模拟用的帧回调：只在 playing 阶段执行，菜单、暂停和游戏结束时冻结
+export const useGameFrame = (callback: (state: RootState, delta: number) => void, priority?: number) => {
+  useFrame((state, delta) => {
+    if (!gameStore.isPlaying) return;
+    callback(state, delta);
+  }, priority);
+};
+
+// 固定步长时钟：每个渲染帧累积真实时间，按固定步长切分；所有模拟共用同一个时钟，步数一致
+// 同时推进游戏状态中的计时（连击、伤害数字、拾取物重生）
+class FixedStepClock {
+  steps = 0; // 本帧需要推进的步数
+  alpha = 0; // 累积剩余时间占一步的比例，渲染时在最近两步之间插值
+  time = 0; // 已模拟的时间（秒），暂停时不走
+  private accumulator = 0;
+  private frameTime = -1;
+
+  // 同一渲染帧内的多次调用只推进一次（以时钟读数区分帧）
+  advance(frameTime: number, delta: number) {
+    if (frameTime === this.frameTime) return;
+    this.frameTime = frameTime;
+    this.accumulator += Math.min(delta, MAX_FRAME_TIME);
+    this.steps = Math.floor(this.accumulator / FIXED_STEP);
+    this.accumulator -= this.steps * FIXED_STEP;
+    this.alpha = this.accumulator / FIXED_STEP;
+    this.time += this.steps * FIXED_STEP;
+    gameStore.tick(this.steps * FIXED_STEP);
+  }
+
+  // 当前渲染时刻对应的模拟时间（含不足一步的累积）
+  get now() {
+    return this.time + this.accumulator;
+  }
+}
+
+export const fixedClock = new FixedStepClock();
+
+// 固定步长的模拟回调：step 在每帧被调用 0 到多次，每次推进 FIXED_STEP；
+// render 每帧调用一次，alpha 为当前时刻在上一步与最新一步之间的比例，delta 为真实帧间隔
+export const useFixedFrame = (
+  step: (state: RootState, dt: number) => void,
+  render?: (state: RootState, alpha: number, delta: number) => void
+) => {
+  useGameFrame((state, delta) => {
+    fixedClock.advance(state.clock.elapsedTime, delta);
+    for (let i = 0; i < fixedClock.steps; i++) step(state, FIXED_STEP);
+    render?.(state, fixedClock.alpha, delta);
+  });
+};
+
+// 固定步长模拟的位置记录：每步结束时写入，渲染时在最近两步之间插值
+export class PositionHistory {
+  readonly previous = new Vector3();
+  readonly current = new Vector3();
+
+  // 瞬移（出生、重生）时清空历史，避免插值出中间位置
+  reset(position: Vector3) {
+    this.previous.copy(position);
+    this.current.copy(position);
+  }
+
+  push(position: Vector3) {
+    this.previous.copy(this.current);
+    this.current.copy(position);
+  }
+
+  interpolate(alpha: number, target: Vector3) {
+    return target.lerpVectors(this.previous, this.current, alpha);
+  }
+}
+
+// 异步回报的位置记录（物理 worker 的刚体位置）：收到时按模拟时间打时间戳，
+// 渲染时延后一个回报间隔，在最近两次回报之间插值；没有新回报时不会重复写入旧位置
+export class SampledPositionHistory {
+  private history = new PositionHistory();
+  private previousTime = 0;
+  private currentTime = 0;
+
+  reset(position: Vector3) {
+    this.history.reset(position);
+    this.previousTime = fixedClock.now;
+    this.currentTime = fixedClock.now;
+  }
+
+  sample(position: Vector3) {
+    this.history.push(position);
+    this.previousTime = this.currentTime;
+    this.currentTime = fixedClock.now;
+  }
+
+  interpolate(target: Vector3) {
+    const interval = this.currentTime - this.previousTime;
+    const alpha = interval > 0 ? Math.min((fixedClock.now - this.currentTime) / interval, 1) : 1;
+    return this.history.interpolate(alpha, target);
+  }
+}
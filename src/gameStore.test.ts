@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { gameStore } from './gameStore';
+import type { HitEvent } from './damage';
+
+const hit = (killed = false): HitEvent => ({
+  targetId: 'enemy',
+  damage: 20,
+  point: new Vector3(),
+  normal: new Vector3(0, 1, 0),
+  weapon: 'pistol',
+  remainingHealth: killed ? 0 : 80,
+  killed
+});
+
+describe('gameStore 计时', () => {
+  beforeEach(() => {
+    gameStore.reset('playing');
+  });
+
+  it('连击在没有命中一段时间后清零', () => {
+    gameStore.registerHit(hit());
+    gameStore.registerHit(hit());
+    expect(gameStore.getSnapshot().combo).toBe(2);
+
+    gameStore.tick(1.5);
+    expect(gameStore.getSnapshot().combo).toBe(2);
+    gameStore.tick(1);
+    expect(gameStore.getSnapshot().combo).toBe(0);
+  });
+
+  it('伤害数字到期后移除', () => {
+    gameStore.registerHit(hit());
+    expect(gameStore.getSnapshot().damageNumbers).toHaveLength(1);
+
+    gameStore.tick(1);
+    expect(gameStore.getSnapshot().damageNumbers).toHaveLength(0);
+  });
+
+  it('拾取物按模拟时间重新出现，不填重生时间则不再出现', () => {
+    gameStore.collectPickup('health-1', 5);
+    gameStore.collectPickup('ammo-1');
+
+    gameStore.tick(4);
+    expect(gameStore.getSnapshot().collectedPickups).toEqual(['health-1', 'ammo-1']);
+    gameStore.tick(1);
+    expect(gameStore.getSnapshot().collectedPickups).toEqual(['ammo-1']);
+  });
+
+  it('受伤时间记录为模拟时间', () => {
+    gameStore.setPlayerHealth(100, 100);
+    gameStore.tick(3);
+    gameStore.setPlayerHealth(80, 100);
+    expect(gameStore.getSnapshot().damagedAt).toBe(3);
+
+    gameStore.tick(1);
+    gameStore.setPlayerHealth(100, 100);
+    expect(gameStore.getSnapshot().damagedAt).toBe(3);
+  });
+
+  it('重置时清空未到期的计时', () => {
+    gameStore.collectPickup('health-1', 5);
+    gameStore.registerHit(hit());
+
+    gameStore.reset('playing');
+    gameStore.collectPickup('health-1');
+    gameStore.tick(10);
+    expect(gameStore.getSnapshot().collectedPickups).toEqual(['health-1']);
+    expect(gameStore.getSnapshot().combo).toBe(0);
+  });
+});
@@ -0,0 +1,233 @@
+import { useSyncExternalStore } from 'react';
+import type { HitEvent } from './damage';
+
+// 游戏阶段：只有 playing 时推进模拟
+export type GamePhase = 'menu' | 'playing' | 'paused' | 'gameover';
+
+export interface WeaponStatus {
+  name: string;
+  ammo: number;
+  magazineSize: number;
+  isReloading: boolean;
+  reloadStartedAt: number; // 开始换弹的模拟时间（秒），与 time 对比得到换弹进度
+  reloadTime: number; // 换弹时长（秒）
+}
+
+export interface BossStatus {
+  name: string;
+  health: number;
+  maxHealth: number;
+  enraged: boolean;
+}
+
+// 命中时弹出的伤害数字
+export interface DamageNumber {
+  id: number;
+  amount: number;
+  position: [number, number, number];
+  killed: boolean;
+}
+
+export interface GameState {
+  phase: GamePhase;
+  lives: number; // 剩余生命数，耗尽后游戏结束
+  health: number;
+  maxHealth: number;
+  isDead: boolean;
+  weapon: WeaponStatus | null;
+  score: number;
+  combo: number; // 连击数，一段时间内没有命中则清零
+  boss: BossStatus | null; // 交战中的Boss，未交战时为空
+  wave: number;
+  enemiesRemaining: number;
+  hitMarkerAt: number; // 最近一次命中的模拟时间（秒），用于准星命中反馈
+  damagedAt: number; // 玩家最近一次受伤的模拟时间（秒），用于受击画面效果
+  damageNumbers: DamageNumber[];
+  collectedPickups: string[]; // 已被拾取、等待重新出现的拾取物ID
+}
+
+const STARTING_LIVES = 3;
+const COMBO_WINDOW = 2; // 连击保持时间（秒）
+const DAMAGE_NUMBER_LIFE = 0.8;
+const HIT_SCORE = 10;
+const KILL_SCORE = 100;
+
+const initialState: GameState = {
+  phase: 'menu',
+  lives: STARTING_LIVES,
+  health: 100,
+  maxHealth: 100,
+  isDead: false,
+  weapon: null,
+  score: 0,
+  combo: 0,
+  boss: null,
+  wave: 0,
+  enemiesRemaining: 0,
+  hitMarkerAt: -Infinity,
+  damagedAt: -Infinity,
+  damageNumbers: [],
+  collectedPickups: []
+};
+
+// 取出并删除已到期的计时项
+const takeExpired = <K>(deadlines: Map<K, number>, time: number) => {
+  const expired: K[] = [];
+  deadlines.forEach((deadline, key) => {
+    if (deadline <= time) expired.push(key);
+  });
+  expired.forEach((key) => deadlines.delete(key));
+  return expired;
+};
+
+// 全局游戏状态：游戏逻辑写入，HUD 等界面订阅读取
+// 连击、伤害数字和拾取物重生按模拟时间计时，暂停时不走，重置时一并清空
+class GameStore {
+  private state = initialState;
+  private listeners = new Set<() => void>();
+  private simulationTime = 0; // 模拟时间（秒），由固定步长时钟推进
+  private comboExpiresAt = 0;
+  private damageNumberExpiry = new Map<number, number>(); // 伤害数字ID -> 消失时间
+  private pickupRespawns = new Map<string, number>(); // 拾取物ID -> 重新出现时间
+  private damageNumberId = 0;
+  private pausedAt = 0;
+
+  getSnapshot = () => this.state;
+
+  get time() {
+    return this.simulationTime;
+  }
+
+  get isPlaying() {
+    return this.state.phase === 'playing';
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  start() {
+    this.update({ phase: 'playing' });
+  }
+
+  pause() {
+    if (this.state.phase !== 'playing') return;
+    this.pausedAt = performance.now();
+    this.update({ phase: 'paused' });
+  }
+
+  resume() {
+    if (this.state.phase === 'paused') this.update({ phase: 'playing' });
+  }
+
+  // Esc 切换暂停；刚暂停时忽略，避免释放鼠标锁定与按键事件先后触发导致立即恢复
+  togglePause() {
+    if (this.state.phase === 'playing') {
+      this.pause();
+    } else if (this.state.phase === 'paused' && performance.now() - this.pausedAt > 250) {
+      this.resume();
+    }
+  }
+
+  // 失去一条命，耗尽时进入游戏结束，返回剩余生命数
+  loseLife() {
+    const lives = Math.max(0, this.state.lives - 1);
+    this.update(lives > 0 ? { lives } : { lives, phase: 'gameover' });
+    return lives;
+  }
+
+  // 恢复初始状态（重新开始时与场景一同重置）
+  reset(phase: GamePhase = 'menu') {
+    this.simulationTime = 0;
+    this.comboExpiresAt = 0;
+    this.damageNumberExpiry.clear();
+    this.pickupRespawns.clear();
+    this.state = { ...initialState, phase };
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // 推进模拟时间，结算到期的连击、伤害数字和拾取物重生
+  tick(delta: number) {
+    this.simulationTime += delta;
+    const partial: Partial<GameState> = {};
+
+    if (this.state.combo > 0 && this.simulationTime >= this.comboExpiresAt) partial.combo = 0;
+
+    const faded = takeExpired(this.damageNumberExpiry, this.simulationTime);
+    if (faded.length > 0) {
+      partial.damageNumbers = this.state.damageNumbers.filter((n) => !faded.includes(n.id));
+    }
+
+    const respawned = takeExpired(this.pickupRespawns, this.simulationTime);
+    if (respawned.length > 0) {
+      partial.collectedPickups = this.state.collectedPickups.filter((id) => !respawned.includes(id));
+    }
+
+    if (Object.keys(partial).length > 0) this.update(partial);
+  }
+
+  setPlayerHealth(health: number, maxHealth: number) {
+    const damaged = health < this.state.health;
+    this.update(damaged ? { health, maxHealth, damagedAt: this.simulationTime } : { health, maxHealth });
+  }
+
+  setPlayerDead(isDead: boolean) {
+    this.update({ isDead });
+  }
+
+  setWeapon(weapon: WeaponStatus) {
+    this.update({ weapon });
+  }
+
+  setBoss(boss: BossStatus | null) {
+    this.update({ boss });
+  }
+
+  setWave(wave: number, enemiesRemaining: number) {
+    this.update({ wave, enemiesRemaining });
+  }
+
+  // 拾取物被拾取，respawnTime（秒）后重新出现
+  collectPickup(id: string, respawnTime?: number) {
+    this.update({ collectedPickups: [...this.state.collectedPickups, id] });
+    if (respawnTime !== undefined) this.pickupRespawns.set(id, this.simulationTime + respawnTime);
+  }
+
+  // 记录玩家造成的一次命中：计分、连击、命中反馈和伤害数字
+  registerHit(event: HitEvent) {
+    if (event.damage <= 0) return;
+
+    const combo = this.state.combo + 1;
+    const points = (HIT_SCORE + (event.killed ? KILL_SCORE : 0)) * Math.min(combo, 10);
+    const damageNumber: DamageNumber = {
+      id: this.damageNumberId++,
+      amount: Math.round(event.damage),
+      position: [event.point.x, event.point.y, event.point.z],
+      killed: event.killed
+    };
+
+    this.update({
+      score: this.state.score + points,
+      combo,
+      hitMarkerAt: this.simulationTime,
+      damageNumbers: [...this.state.damageNumbers, damageNumber]
+    });
+
+    this.comboExpiresAt = this.simulationTime + COMBO_WINDOW;
+    this.damageNumberExpiry.set(damageNumber.id, this.simulationTime + DAMAGE_NUMBER_LIFE);
+  }
+
+  private update(partial: Partial<GameState>) {
+    this.state = { ...this.state, ...partial };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const gameStore = new GameStore();
+
+// 订阅状态的一部分；selector 应返回原始值或状态中已有的对象，避免每次生成新对象
+export const useGameStore = <T>(selector: (state: GameState) => T) =>
+  useSyncExternalStore(gameStore.subscribe, () => selector(gameStore.getSnapshot()));
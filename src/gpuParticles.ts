@@ -0,0 +1,117 @@
+import { BufferAttribute, DynamicDrawUsage, Vector3 } from 'three';
+import type { Random } from './random';
+import { sampleLifetime, sampleShape, sampleVelocity } from './particles';
+import type { ParticleConfig } from './particles';
+
+export const MAX_GRADIENT_STOPS = 8; // 着色器中颜色、大小、不透明度关键值的上限
+export const NO_BOUND = 1e9; // 着色器中代替无穷远的边界
+const MAX_LIFETIME = 1e6; // 着色器中代替 Infinity 的寿命
+const EPSILON = 1e-6;
+
+const tempOffset = new Vector3();
+const tempVelocity = new Vector3();
+
+// 从 y0 以竖直速度 vy、加速度 gravity 出发，首次越过 bound 的时间，不会越过时为 Infinity
+const crossingTime = (y0: number, vy: number, gravity: number, bound: number) => {
+  if (!Number.isFinite(bound)) return Infinity;
+  const c = y0 - bound;
+
+  if (gravity === 0) {
+    const t = vy === 0 ? Infinity : -c / vy;
+    return t > EPSILON ? t : Infinity;
+  }
+
+  // 0.5 * gravity * t² + vy * t + c = 0
+  const discriminant = vy * vy - 2 * gravity * c;
+  if (discriminant < 0) return Infinity;
+  const root = Math.sqrt(discriminant);
+  const times = [(-vy - root) / gravity, (-vy + root) / gravity].filter((t) => t > EPSILON);
+  return times.length > 0 ? Math.min(...times) : Infinity;
+};
+
+// GPU 粒子池：每个粒子只保存出生位置、初速度和出生时间，位置由顶点着色器按解析轨迹计算
+// 持续发射的粒子在离开边界或寿命结束时回到出生位置重新开始（循环周期在发射时算好）；
+// 成批发射以环形方式复用槽位，只上传被改写的区间
+export class GpuParticleSystem {
+  readonly config: ParticleConfig;
+  readonly capacity: number;
+  time = 0; // 模拟时间，传给着色器
+
+  readonly starts: BufferAttribute; // 出生位置（发射器局部坐标）
+  readonly velocities: BufferAttribute;
+  readonly timings: BufferAttribute; // 出生时间、寿命（循环粒子为周期）、是否循环
+
+  private rng: Random;
+  private cursor = 0; // 下一个成批发射使用的槽位
+
+  constructor(config: ParticleConfig, rng: Random) {
+    this.config = config;
+    this.rng = rng;
+    this.capacity = config.maxParticles;
+    this.starts = new BufferAttribute(new Float32Array(this.capacity * 3), 3);
+    this.velocities = new BufferAttribute(new Float32Array(this.capacity * 3), 3);
+    this.timings = new BufferAttribute(new Float32Array(this.capacity * 3), 3);
+    [this.starts, this.velocities, this.timings].forEach((attribute) => attribute.setUsage(DynamicDrawUsage));
+
+    // 未使用的槽位寿命为0，不会显示；预热通过把出生时间提前实现
+    const { initialCount = 0, rate, prewarm = 0 } = config;
+    const initial = Math.min(initialCount, this.capacity);
+    for (let i = 0; i < initial; i++) this.spawn(i, -prewarm, false);
+
+    // 持续发射占用其余全部槽位，按发射速率依次出生后循环
+    if (rate > 0) {
+      for (let i = initial; i < this.capacity; i++) this.spawn(i, (i - initial) / rate - prewarm, true);
+    }
+    this.cursor = initial % Math.max(this.capacity, 1);
+  }
+
+  // 在 origin（发射器局部坐标）处发射一批粒子，超出容量时替换最早的粒子
+  emit(count: number, origin?: Vector3, direction?: Vector3) {
+    const total = Math.min(count, this.capacity);
+    if (total <= 0) return;
+
+    const start = this.cursor;
+    for (let n = 0; n < total; n++) {
+      this.spawn(this.cursor, this.time, false, origin, direction);
+      this.cursor = (this.cursor + 1) % this.capacity;
+    }
+
+    const first = Math.min(total, this.capacity - start);
+    this.markDirty(start, first);
+    if (total > first) this.markDirty(0, total - first);
+  }
+
+  update(delta: number) {
+    this.time += delta;
+  }
+
+  private spawn(i: number, birth: number, loop: boolean, origin?: Vector3, direction?: Vector3) {
+    const { config, rng } = this;
+
+    sampleShape(config.shape, rng, tempOffset);
+    sampleVelocity(config.velocity, rng, tempOffset, tempVelocity, direction);
+    if (origin) tempOffset.add(origin);
+
+    // 离开边界的时间按无阻力轨迹估算，有阻力时着色器会在越界后隐藏粒子直到下一周期
+    let lifetime = sampleLifetime(config.lifetime, rng);
+    if (config.bounds) {
+      const [minY, maxY] = config.bounds;
+      lifetime = Math.min(
+        lifetime,
+        crossingTime(tempOffset.y, tempVelocity.y, config.gravity, minY),
+        crossingTime(tempOffset.y, tempVelocity.y, config.gravity, maxY)
+      );
+    }
+
+    this.starts.setXYZ(i, tempOffset.x, tempOffset.y, tempOffset.z);
+    this.velocities.setXYZ(i, tempVelocity.x, tempVelocity.y, tempVelocity.z);
+    this.timings.setXYZ(i, birth, Math.min(lifetime, MAX_LIFETIME), loop ? 1 : 0);
+  }
+
+  private markDirty(start: number, count: number) {
+    [this.starts, this.velocities, this.timings].forEach((attribute) => {
+      attribute.addUpdateRange(start * attribute.itemSize, count * attribute.itemSize);
+      attribute.needsUpdate = true;
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import { useSyncExternalStore } from 'react';
+import type { EmitterData } from './level';
+
+// 画质档位：控制分辨率、阴影、泛光、粒子数量和抗锯齿
+export type QualityLevel = 'low' | 'medium' | 'high' | 'ultra';
+
+// 后期处理效果
+export type PostEffect = 'bloom' | 'vignette' | 'chromaticAberration' | 'depthOfField' | 'smaa';
+
+export type PostEffectSettings = Record<PostEffect, boolean>;
+
+export const POST_EFFECTS: PostEffect[] = ['bloom', 'vignette', 'chromaticAberration', 'depthOfField', 'smaa'];
+
+export const POST_EFFECT_LABELS: Record<PostEffect, string> = {
+  bloom: '泛光',
+  vignette: '暗角',
+  chromaticAberration: '受击色差',
+  depthOfField: '瞄准景深',
+  smaa: 'SMAA 抗锯齿'
+};
+
+export interface QualityPreset {
+  dpr: number; // 像素比上限（不超过设备像素比）
+  shadowMapSize: number; // 阴影贴图边长，0 表示关闭阴影
+  effects: PostEffectSettings; // 全部关闭时不使用后期处理
+  particleScale: number; // 关卡粒子数量倍率
+  msaaSamples: number; // 多重采样抗锯齿的采样数，0 表示关闭
+}
+
+export const QUALITY_LEVELS: QualityLevel[] = ['low', 'medium', 'high', 'ultra'];
+
+export const QUALITY_LABELS: Record<QualityLevel, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  ultra: '极高'
+};
+
+const ALL_EFFECTS: PostEffectSettings = {
+  bloom: true,
+  vignette: true,
+  chromaticAberration: true,
+  depthOfField: true,
+  smaa: true
+};
+
+export const QUALITY_PRESETS: Record<QualityLevel, QualityPreset> = {
+  low: {
+    dpr: 0.75,
+    shadowMapSize: 0,
+    effects: { bloom: false, vignette: false, chromaticAberration: false, depthOfField: false, smaa: false },
+    particleScale: 0.25,
+    msaaSamples: 0
+  },
+  medium: {
+    dpr: 1,
+    shadowMapSize: 1024,
+    effects: { bloom: true, vignette: true, chromaticAberration: true, depthOfField: false, smaa: true },
+    particleScale: 0.5,
+    msaaSamples: 0
+  },
+  high: { dpr: 1.5, shadowMapSize: 2048, effects: ALL_EFFECTS, particleScale: 1, msaaSamples: 0 },
+  ultra: { dpr: 2, shadowMapSize: 4096, effects: ALL_EFFECTS, particleScale: 4, msaaSamples: 4 }
+};
+
+// 自动画质的目标帧率：不超过常见的 60Hz 刷新率，垂直同步下达不到的目标会让画质一直降到最低
+export const TARGET_FPS_OPTIONS = [30, 60];
+
+export interface GraphicsSettings {
+  quality: QualityLevel;
+  auto: boolean; // 按帧率自动调整画质和渲染分辨率
+  targetFps: number;
+  resolutionScale: number; // 渲染分辨率倍率，自动模式下调整
+  effectOverrides: Partial<PostEffectSettings>; // 运行时单独开关的后期效果，覆盖画质档位的设置
+}
+
+const DEFAULT_SETTINGS: GraphicsSettings = {
+  quality: 'high',
+  auto: false,
+  targetFps: 60,
+  resolutionScale: 1,
+  effectOverrides: {}
+};
+
+// 自动模式的调整阶梯：由低到高，每档画质内先调整分辨率
+const RESOLUTION_STEPS = [0.6, 0.8, 1];
+const AUTO_LADDER = QUALITY_LEVELS.flatMap((quality) =>
+  RESOLUTION_STEPS.map((resolutionScale) => ({ quality, resolutionScale }))
+);
+
+const STORAGE_KEY = 'zfqishi.graphics';
+
+const loadSettings = (): GraphicsSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    const saved = { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<GraphicsSettings>) };
+    if (!(saved.quality in QUALITY_PRESETS)) return DEFAULT_SETTINGS;
+    return TARGET_FPS_OPTIONS.includes(saved.targetFps) ? saved : { ...saved, targetFps: DEFAULT_SETTINGS.targetFps };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// 画质设置存储：修改后写入 localStorage 并通知订阅者
+class GraphicsStore {
+  private settings = loadSettings();
+  private listeners = new Set<() => void>();
+
+  getSnapshot = () => this.settings;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // 手动选择画质时关闭自动模式，恢复完整分辨率和该档位的后期效果
+  setQuality(quality: QualityLevel) {
+    this.update({ quality, auto: false, resolutionScale: 1, effectOverrides: {} });
+  }
+
+  setEffect(effect: PostEffect, enabled: boolean) {
+    this.update({ effectOverrides: { ...this.settings.effectOverrides, [effect]: enabled } });
+  }
+
+  setAuto(auto: boolean) {
+    this.update(auto ? { auto } : { auto, resolutionScale: 1 });
+  }
+
+  setTargetFps(targetFps: number) {
+    this.update({ targetFps });
+  }
+
+  // 自动模式沿阶梯升降一档，已到尽头时返回 false
+  step(direction: 1 | -1) {
+    const { quality, resolutionScale } = this.settings;
+    const index = AUTO_LADDER.findIndex((step) => step.quality === quality && step.resolutionScale === resolutionScale);
+    // 手动设置的组合不在阶梯上时，从该画质的完整分辨率开始
+    const current = index >= 0 ? index : AUTO_LADDER.findIndex((step) => step.quality === quality && step.resolutionScale === 1);
+    const next = AUTO_LADDER[current + direction];
+    if (!next) return false;
+    this.update(next);
+    return true;
+  }
+
+  private update(partial: Partial<GraphicsSettings>) {
+    this.settings = { ...this.settings, ...partial };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch {
+      // 隐私模式等情况下无法写入，仅在本次会话中生效
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const graphicsStore = new GraphicsStore();
+
+export const useGraphics = () => useSyncExternalStore(graphicsStore.subscribe, graphicsStore.getSnapshot);
+
+// 当前生效的后期效果：画质档位的设置加上运行时的开关
+export const getPostEffects = (settings: GraphicsSettings): PostEffectSettings => ({
+  ...QUALITY_PRESETS[settings.quality].effects,
+  ...settings.effectOverrides
+});
+
+// 按画质缩放关卡发射器的粒子数量
+export const scaleParticleCount = (emitter: EmitterData, scale: number): EmitterData => {
+  if (scale === 1) return emitter;
+  if (emitter.type !== 'custom') return { ...emitter, count: Math.round(emitter.count * scale) };
+
+  const { config } = emitter;
+  return {
+    ...emitter,
+    config: {
+      ...config,
+      maxParticles: Math.round(config.maxParticles * scale),
+      rate: config.rate * scale,
+      initialCount: config.initialCount && Math.round(config.initialCount * scale)
+    }
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BINDINGS, parseBindings } from './input';
+
+describe('parseBindings', () => {
+  it('保留格式正确的绑定，其余动作使用默认值', () => {
+    const bindings = parseBindings({
+      keyboard: { jump: ['KeyJ'], fire: 'Mouse0', reload: [82], aim: null },
+      gamepad: { buttons: { jump: [3], crouch: ['B'] }, deadzone: '0.5', moveStick: [2, 3] }
+    });
+
+    expect(bindings.keyboard.jump).toEqual(['KeyJ']);
+    expect(bindings.keyboard.fire).toEqual(DEFAULT_BINDINGS.keyboard.fire);
+    expect(bindings.keyboard.reload).toEqual(DEFAULT_BINDINGS.keyboard.reload);
+    expect(bindings.keyboard.aim).toEqual(DEFAULT_BINDINGS.keyboard.aim);
+    expect(bindings.gamepad.buttons.jump).toEqual([3]);
+    expect(bindings.gamepad.buttons.crouch).toEqual(DEFAULT_BINDINGS.gamepad.buttons.crouch);
+    expect(bindings.gamepad.deadzone).toBe(DEFAULT_BINDINGS.gamepad.deadzone);
+    expect(bindings.gamepad.moveStick).toEqual([2, 3]);
+  });
+
+  it('保存的内容不是对象时使用全部默认值', () => {
+    expect(parseBindings(['KeyW'])).toEqual(DEFAULT_BINDINGS);
+    expect(parseBindings(null)).toEqual(DEFAULT_BINDINGS);
+  });
+});
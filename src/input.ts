@@ -0,0 +1,339 @@
+import { useSyncExternalStore } from 'react';
+
+// 游戏中的输入动作，按键只映射到动作，逻辑只关心动作
+export type InputAction =
+  | 'moveForward'
+  | 'moveBackward'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'jump'
+  | 'crouch'
+  | 'fire'
+  | 'aim'
+  | 'reload'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'cameraMode'
+  | 'swapShoulder'
+  | 'nextWeapon'
+  | 'prevWeapon'
+  | 'weapon1'
+  | 'weapon2'
+  | 'weapon3';
+
+export const INPUT_ACTIONS: InputAction[] = [
+  'moveForward',
+  'moveBackward',
+  'moveLeft',
+  'moveRight',
+  'jump',
+  'crouch',
+  'fire',
+  'aim',
+  'reload',
+  'zoomIn',
+  'zoomOut',
+  'cameraMode',
+  'swapShoulder',
+  'nextWeapon',
+  'prevWeapon',
+  'weapon1',
+  'weapon2',
+  'weapon3'
+];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  moveForward: '前进',
+  moveBackward: '后退',
+  moveLeft: '左移',
+  moveRight: '右移',
+  jump: '跳跃',
+  crouch: '蹲下',
+  fire: '射击',
+  aim: '瞄准',
+  reload: '换弹',
+  zoomIn: '拉近视角',
+  zoomOut: '拉远视角',
+  cameraMode: '切换相机模式',
+  swapShoulder: '交换肩膀',
+  nextWeapon: '下一把武器',
+  prevWeapon: '上一把武器',
+  weapon1: '切换手枪',
+  weapon2: '切换霰弹枪',
+  weapon3: '切换步枪'
+};
+
+// 手柄摇杆：两个轴的索引 [水平, 垂直]
+export type StickAxes = [number, number];
+
+export interface GamepadBindings {
+  buttons: Partial<Record<InputAction, number[]>>; // 标准布局下的按键索引（扳机也是按键）
+  moveStick: StickAxes;
+  lookStick: StickAxes;
+  deadzone: number; // 摇杆死区
+  triggerThreshold: number; // 扳机按下阈值
+}
+
+export interface InputBindings {
+  // 键盘使用 KeyboardEvent.code，与键盘布局和大小写无关
+  // 鼠标按键写作 Mouse0 / Mouse2，滚轮写作 WheelUp / WheelDown
+  keyboard: Record<InputAction, string[]>;
+  gamepad: GamepadBindings;
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    moveForward: ['KeyW', 'ArrowUp'],
+    moveBackward: ['KeyS', 'ArrowDown'],
+    moveLeft: ['KeyA', 'ArrowLeft'],
+    moveRight: ['KeyD', 'ArrowRight'],
+    jump: ['Space'],
+    crouch: ['ShiftLeft', 'ShiftRight'],
+    fire: ['Mouse0'],
+    aim: ['Mouse2'],
+    reload: ['KeyR'],
+    zoomIn: ['Equal', 'NumpadAdd'],
+    zoomOut: ['Minus', 'NumpadSubtract'],
+    cameraMode: ['KeyV'],
+    swapShoulder: ['KeyQ'],
+    nextWeapon: ['WheelDown'],
+    prevWeapon: ['WheelUp'],
+    weapon1: ['Digit1'],
+    weapon2: ['Digit2'],
+    weapon3: ['Digit3']
+  },
+  gamepad: {
+    buttons: {
+      jump: [0],
+      crouch: [1],
+      reload: [2],
+      prevWeapon: [4],
+      nextWeapon: [5],
+      aim: [6],
+      fire: [7],
+      zoomIn: [12],
+      zoomOut: [13],
+      cameraMode: [3],
+      swapShoulder: [11]
+    },
+    moveStick: [0, 1],
+    lookStick: [2, 3],
+    deadzone: 0.15,
+    triggerThreshold: 0.3
+  }
+};
+
+const STORAGE_KEY = 'zfqishi.inputBindings';
+
+// 按键名称的显示文本
+const CODE_LABELS: Record<string, string> = {
+  Space: '空格',
+  ShiftLeft: 'Shift',
+  ShiftRight: '右Shift',
+  ControlLeft: 'Ctrl',
+  ControlRight: '右Ctrl',
+  AltLeft: 'Alt',
+  AltRight: '右Alt',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Equal: '=',
+  Minus: '-',
+  NumpadAdd: '小键盘+',
+  NumpadSubtract: '小键盘-',
+  Mouse0: '鼠标左键',
+  Mouse1: '鼠标中键',
+  Mouse2: '鼠标右键',
+  WheelUp: '滚轮上',
+  WheelDown: '滚轮下'
+};
+
+// 标准手柄布局的按键名称
+const GAMEPAD_BUTTON_LABELS = [
+  'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT',
+  'Back', 'Start', 'L3', 'R3', '十字键↑', '十字键↓', '十字键←', '十字键→', 'Home'
+];
+
+export const formatKey = (code: string) => {
+  if (CODE_LABELS[code]) return CODE_LABELS[code];
+  if (code.startsWith('Key')) return code.slice(3);
+  if (code.startsWith('Digit')) return code.slice(5);
+  if (code.startsWith('Numpad')) return `小键盘${code.slice(6)}`;
+  return code;
+};
+
+export const formatGamepadButton = (index: number) => GAMEPAD_BUTTON_LABELS[index] ?? `按键${index}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isArrayOf = <T>(value: unknown, type: 'string' | 'number'): value is T[] =>
+  Array.isArray(value) && value.every((item) => typeof item === type);
+
+const isStickAxes = (value: unknown): value is StickAxes =>
+  isArrayOf<number>(value, 'number') && value.length === 2;
+
+// 逐项校验保存的绑定，缺失或格式不对的项使用默认值
+export const parseBindings = (saved: unknown): InputBindings => {
+  const source = isRecord(saved) ? saved : {};
+  const savedKeyboard = isRecord(source.keyboard) ? source.keyboard : {};
+  const savedGamepad = isRecord(source.gamepad) ? source.gamepad : {};
+  const savedButtons = isRecord(savedGamepad.buttons) ? savedGamepad.buttons : {};
+  const defaults = DEFAULT_BINDINGS.gamepad;
+
+  const keyboard = { ...DEFAULT_BINDINGS.keyboard };
+  const buttons = { ...defaults.buttons };
+  for (const action of INPUT_ACTIONS) {
+    const codes = savedKeyboard[action];
+    if (isArrayOf<string>(codes, 'string')) keyboard[action] = codes;
+    const indices = savedButtons[action];
+    if (isArrayOf<number>(indices, 'number')) buttons[action] = indices;
+  }
+
+  const { moveStick, lookStick, deadzone, triggerThreshold } = savedGamepad;
+  return {
+    keyboard,
+    gamepad: {
+      buttons,
+      moveStick: isStickAxes(moveStick) ? moveStick : defaults.moveStick,
+      lookStick: isStickAxes(lookStick) ? lookStick : defaults.lookStick,
+      deadzone: typeof deadzone === 'number' ? deadzone : defaults.deadzone,
+      triggerThreshold: typeof triggerThreshold === 'number' ? triggerThreshold : defaults.triggerThreshold
+    }
+  };
+};
+
+// 读取本地保存的绑定
+const loadBindings = (): InputBindings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseBindings(JSON.parse(raw)) : DEFAULT_BINDINGS;
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+// 输入绑定存储：修改后写入 localStorage 并通知订阅者
+class InputBindingStore {
+  private bindings = loadBindings();
+  private listeners = new Set<() => void>();
+
+  getSnapshot = () => this.bindings;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  // 将按键绑定到动作；同一按键只能对应一个动作，会从其他动作中移除
+  bindKey(action: InputAction, code: string) {
+    const keyboard = { ...this.bindings.keyboard };
+    for (const other of INPUT_ACTIONS) {
+      keyboard[other] = keyboard[other].filter((c) => c !== code);
+    }
+    keyboard[action] = [code];
+    this.update({ ...this.bindings, keyboard });
+  }
+
+  bindGamepadButton(action: InputAction, index: number) {
+    const buttons = { ...this.bindings.gamepad.buttons };
+    for (const other of INPUT_ACTIONS) {
+      const list = buttons[other];
+      if (list) buttons[other] = list.filter((b) => b !== index);
+    }
+    buttons[action] = [index];
+    this.update({ ...this.bindings, gamepad: { ...this.bindings.gamepad, buttons } });
+  }
+
+  reset() {
+    this.update(DEFAULT_BINDINGS);
+  }
+
+  private update(next: InputBindings) {
+    this.bindings = next;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // 隐私模式等情况下无法写入，仅在本次会话中生效
+    }
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const inputBindings = new InputBindingStore();
+
+export const useInputBindings = () =>
+  useSyncExternalStore(inputBindings.subscribe, inputBindings.getSnapshot);
+
+// 查找按键对应的动作
+export const actionForCode = (bindings: InputBindings, code: string) =>
+  INPUT_ACTIONS.find((action) => bindings.keyboard[action].includes(code)) ?? null;
+
+export interface GamepadState {
+  connected: boolean;
+  move: { x: number; y: number }; // 左摇杆，y 向上为正
+  look: { x: number; y: number }; // 右摇杆，y 向上为正
+  pressed: InputAction[]; // 本次轮询新按下的动作
+  released: InputAction[]; // 本次轮询新松开的动作
+}
+
+const applyDeadzone = (value: number, deadzone: number) => {
+  if (Math.abs(value) < deadzone) return 0;
+  // 重新映射到 0~1，避免越过死区时跳变
+  return Math.sign(value) * (Math.abs(value) - deadzone) / (1 - deadzone);
+};
+
+// 手柄需要逐帧轮询，这里记录上一次的按键状态以产生按下/松开事件
+export class GamepadReader {
+  private held = new Set<InputAction>();
+  private state: GamepadState = {
+    connected: false,
+    move: { x: 0, y: 0 },
+    look: { x: 0, y: 0 },
+    pressed: [],
+    released: []
+  };
+
+  poll(bindings: GamepadBindings): GamepadState {
+    const { state } = this;
+    const pad = typeof navigator !== 'undefined' && navigator.getGamepads
+      ? navigator.getGamepads().find((p) => p && p.connected) ?? null
+      : null;
+
+    state.pressed = [];
+    state.released = [];
+    state.connected = !!pad;
+
+    if (!pad) {
+      state.move.x = state.move.y = state.look.x = state.look.y = 0;
+      // 断开时松开所有按住的动作
+      this.held.forEach((action) => state.released.push(action));
+      this.held.clear();
+      return state;
+    }
+
+    const axis = (index: number) => applyDeadzone(pad.axes[index] ?? 0, bindings.deadzone);
+    state.move.x = axis(bindings.moveStick[0]);
+    state.move.y = -axis(bindings.moveStick[1]);
+    state.look.x = axis(bindings.lookStick[0]);
+    state.look.y = -axis(bindings.lookStick[1]);
+
+    for (const action of INPUT_ACTIONS) {
+      const indices = bindings.buttons[action];
+      const down = !!indices && indices.some((i) => (pad.buttons[i]?.value ?? 0) > bindings.triggerThreshold);
+
+      if (down && !this.held.has(action)) {
+        this.held.add(action);
+        state.pressed.push(action);
+      } else if (!down && this.held.has(action)) {
+        this.held.delete(action);
+        state.released.push(action);
+      }
+    }
+
+    return state;
+  }
+}
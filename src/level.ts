@@ -0,0 +1,237 @@
+// 关卡数据：由 src/levels 下的 JSON 文件描述或按种子程序化生成，物理刚体、模型、敌人寻路和玩家逻辑共用
+
+import { generateCity } from './cityGenerator';
+import type { ParticleBackend, ParticleConfig } from './particles';
+
+export type Vec2 = [number, number];
+export type Vec3 = [number, number, number];
+
+// 材质（颜色使用 CSS 颜色字符串）
+export interface LevelMaterial {
+  color: string;
+  roughness?: number;
+  metalness?: number;
+  emissive?: string;
+  emissiveIntensity?: number;
+  opacity?: number; // 小于1时半透明
+}
+
+interface ShapeBase {
+  position: Vec3; // 中心位置（斜坡为底面中心）
+  rotation?: number; // 绕Y轴旋转（弧度）
+  material: string; // materials 中的材质名
+}
+
+export interface LevelBox extends ShapeBase {
+  type: 'box';
+  size: Vec3;
+}
+
+export interface LevelCylinder extends ShapeBase {
+  type: 'cylinder';
+  radius: number;
+  height: number;
+  segments?: number;
+}
+
+// 斜坡：size 为 [宽度, 升高, 水平长度]，沿局部 +z 方向升高
+export interface LevelRamp extends ShapeBase {
+  type: 'ramp';
+  size: Vec3;
+}
+
+export type LevelGeometry = LevelBox | LevelCylinder | LevelRamp;
+
+// 敌人出生区域：以 position 为中心、size 为宽深的矩形（宽或深为0时退化为线段）
+export interface EnemySpawner {
+  position: Vec2; // x, z
+  size: Vec2;
+}
+
+export type PickupType = 'health' | 'ammo';
+
+// 拾取物：生命恢复生命值，弹药为所有武器补充子弹
+export interface PickupData {
+  id: string;
+  type: PickupType;
+  position: Vec3;
+  amount: number;
+  respawnTime?: number; // 被拾取后重新出现的时间（秒），不填则不再出现
+}
+
+// 危险区域：站在其中会周期性受到伤害
+export interface HazardData {
+  position: Vec3; // 圆盘中心（y 为所在地表高度）
+  radius: number;
+  damage: number; // 每次结算的伤害
+}
+
+// 内置发射器
+interface BuiltinEmitter {
+  backend?: ParticleBackend; // 模拟后端，默认 gpu
+}
+
+export interface StarsEmitter extends BuiltinEmitter {
+  type: 'stars';
+  count: number;
+  size: number;
+  rotationSpeed: number;
+  spread: number; // 分布范围（立方体边长）
+}
+
+export interface WaterfallEmitter extends BuiltinEmitter {
+  type: 'waterfall';
+  position: Vec3;
+  count: number;
+  size: number;
+  speed: number;
+  spread: number; // 水平宽度
+  height: number; // 粒子从顶部落下的高度
+}
+
+export interface FountainEmitter extends BuiltinEmitter {
+  type: 'fountain';
+  position: Vec3;
+  count: number;
+  size: number;
+  power: number;
+  height: number; // 粒子最高高度
+}
+
+// 自定义发射器：直接给出完整的粒子配置
+export interface CustomEmitter {
+  type: 'custom';
+  position: Vec3;
+  config: ParticleConfig;
+}
+
+export type EmitterData = StarsEmitter | WaterfallEmitter | FountainEmitter | CustomEmitter;
+
+export interface LevelData {
+  name: string; // 显示名称
+  ground: {
+    size: number; // 地面边长（以原点为中心的正方形）
+    y: number;
+    material: string;
+  };
+  materials: Record<string, LevelMaterial>;
+  geometry: LevelGeometry[];
+  spawnPoints: {
+    player: Vec3; // 玩家出生/重生点
+    boss?: Vec3; // 不填则该关卡没有Boss
+  };
+  enemySpawners: EnemySpawner[];
+  pickups: PickupData[];
+  hazards: HazardData[];
+  emitters: EmitterData[];
+}
+
+// 几何体在地面上的占地矩形（轴对齐）
+export interface Footprint {
+  x: number;
+  z: number;
+  halfWidth: number;
+  halfDepth: number;
+}
+
+const STEP_HEIGHT = 1.2; // 顶面高出地面不超过此值的几何体可以直接走上去，不视为障碍
+const KILL_DEPTH = 28; // 低于地面多少视为掉出世界
+
+// 按文件名索引 src/levels 下的所有关卡
+const levelFiles = import.meta.glob<LevelData>('./levels/*.json', { eager: true, import: 'default' });
+
+export const LEVELS: Record<string, LevelData> = Object.fromEntries(
+  Object.entries(levelFiles).map(([path, level]) => [path.replace(/^.*\/(.+)\.json$/, '$1'), level])
+);
+
+export const DEFAULT_LEVEL = 'arena';
+export const CITY_LEVEL = 'city'; // 按种子程序化生成的城市
+
+// 可选关卡：关卡名 -> 显示名称
+export const LEVEL_OPTIONS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(LEVELS).map(([name, level]) => [name, level.name])),
+  [CITY_LEVEL]: '随机城市'
+};
+
+export const getLevel = (name: string, seed: string) =>
+  name === CITY_LEVEL ? generateCity(seed) : LEVELS[name] ?? LEVELS[DEFAULT_LEVEL];
+
+// 初始关卡：地址栏 ?level= 指定；只指定了 ?seed= 时为随机城市，否则使用默认关卡
+export const getInitialLevelName = () => {
+  const params = new URLSearchParams(window.location.search);
+  const name = params.get('level');
+  if (name && name in LEVEL_OPTIONS) return name;
+  return params.has('seed') ? CITY_LEVEL : DEFAULT_LEVEL;
+};
+
+export const getKillY = (level: LevelData) => level.ground.y - KILL_DEPTH;
+
+// 世界坐标转换为几何体的局部水平坐标
+const toLocal = (shape: LevelGeometry, x: number, z: number): Vec2 => {
+  const dx = x - shape.position[0];
+  const dz = z - shape.position[2];
+  const yaw = shape.rotation ?? 0;
+  const cos = Math.cos(yaw);
+  const sin = Math.sin(yaw);
+  return [dx * cos - dz * sin, dx * sin + dz * cos];
+};
+
+// 几何体在 (x, z) 处的顶面高度，不在其上方时返回 null
+const surfaceHeight = (shape: LevelGeometry, x: number, z: number): number | null => {
+  const [lx, lz] = toLocal(shape, x, z);
+
+  switch (shape.type) {
+    case 'box': {
+      const [width, height, depth] = shape.size;
+      if (Math.abs(lx) > width / 2 || Math.abs(lz) > depth / 2) return null;
+      return shape.position[1] + height / 2;
+    }
+    case 'cylinder':
+      if (Math.hypot(lx, lz) > shape.radius) return null;
+      return shape.position[1] + shape.height / 2;
+    case 'ramp': {
+      const [width, rise, length] = shape.size;
+      if (Math.abs(lx) > width / 2 || Math.abs(lz) > length / 2) return null;
+      return shape.position[1] + rise * (lz / length + 0.5);
+    }
+  }
+};
+
+// 斜坡和矮的几何体可以走上去，其余的挡路
+const isObstacle = (shape: LevelGeometry, groundY: number) => {
+  if (shape.type === 'ramp') return false;
+  const height = shape.type === 'box' ? shape.size[1] : shape.height;
+  return shape.position[1] + height / 2 - groundY > STEP_HEIGHT;
+};
+
+// 地表高度：取可行走几何体顶面与地面中的最高者
+export const getGroundHeight = (level: LevelData, x: number, z: number) => {
+  let height = level.ground.y;
+  for (const shape of level.geometry) {
+    if (isObstacle(shape, level.ground.y)) continue;
+    const top = surfaceHeight(shape, x, z);
+    if (top !== null && top > height) height = top;
+  }
+  return height;
+};
+
+// 障碍物的占地矩形（旋转后的几何体取外接矩形），用于敌人寻路
+export const getFootprints = (level: LevelData): Footprint[] =>
+  level.geometry
+    .filter((shape) => isObstacle(shape, level.ground.y))
+    .map((shape) => {
+      const [x, , z] = shape.position;
+      if (shape.type === 'cylinder') {
+        return { x, z, halfWidth: shape.radius, halfDepth: shape.radius };
+      }
+
+      const [width, , depth] = shape.size;
+      const cos = Math.abs(Math.cos(shape.rotation ?? 0));
+      const sin = Math.abs(Math.sin(shape.rotation ?? 0));
+      return {
+        x,
+        z,
+        halfWidth: (width * cos + depth * sin) / 2,
+        halfDepth: (width * sin + depth * cos) / 2
+      };
+    });
@@ -0,0 +1,185 @@
+import { Box3, Euler, Matrix4, Quaternion, Ray, Vector3 } from 'three';
+import type { LevelData, LevelRamp } from './level';
+
+const RAMP_THICKNESS = 0.3;
+
+const GROUND_THICKNESS = 1;
+const EPSILON = 1e-8;
+
+// 斜坡薄板：先俯仰再偏航，中心沿法线向下偏移半个厚度，使顶面与斜坡面重合
+export const getRampSlab = (shape: LevelRamp) => {
+  const [width, rise, length] = shape.size;
+  const quaternion = new Quaternion().setFromEuler(
+    new Euler(-Math.atan2(rise, length), shape.rotation ?? 0, 0, 'YXZ')
+  );
+  const normal = new Vector3(0, 1, 0).applyQuaternion(quaternion);
+  const position = new Vector3(shape.position[0], shape.position[1] + rise / 2, shape.position[2])
+    .addScaledVector(normal, -RAMP_THICKNESS / 2);
+  return { position, quaternion, size: new Vector3(width, RAMP_THICKNESS, Math.hypot(rise, length)) };
+};
+
+export interface ColliderHit {
+  distance: number;
+  point: Vector3;
+  normal: Vector3;
+}
+
+// 静态碰撞体：局部空间中的长方体或竖直圆柱（半尺寸，圆柱为 [半径, 半高, 半径]）
+interface Collider {
+  type: 'box' | 'cylinder';
+  halfSize: Vector3;
+  matrix: Matrix4; // 局部 -> 世界
+  inverse: Matrix4; // 世界 -> 局部
+  bounds: Box3; // 世界空间包围盒，用于粗检测
+}
+
+const createCollider = (
+  type: Collider['type'],
+  position: Vector3,
+  quaternion: Quaternion,
+  size: Vector3
+): Collider => {
+  const halfSize = size.clone().multiplyScalar(0.5);
+  const matrix = new Matrix4().compose(position, quaternion, new Vector3(1, 1, 1));
+  return {
+    type,
+    halfSize,
+    matrix,
+    inverse: matrix.clone().invert(),
+    bounds: new Box3(halfSize.clone().negate(), halfSize.clone()).applyMatrix4(matrix)
+  };
+};
+
+// 局部射线与长方体求交（slab 法），返回进入距离并写入进入面的法线；起点在内部时距离为0
+const intersectBox = (ray: Ray, halfSize: Vector3, normal: Vector3): number | null => {
+  let enter = 0;
+  let exit = Infinity;
+  normal.copy(ray.direction).negate();
+
+  for (let axis = 0; axis < 3; axis++) {
+    const origin = ray.origin.getComponent(axis);
+    const direction = ray.direction.getComponent(axis);
+    const half = halfSize.getComponent(axis);
+
+    if (Math.abs(direction) < EPSILON) {
+      if (Math.abs(origin) > half) return null;
+      continue;
+    }
+
+    const near = (-Math.sign(direction) * half - origin) / direction;
+    const far = (Math.sign(direction) * half - origin) / direction;
+    if (near > enter) {
+      enter = near;
+      normal.set(0, 0, 0).setComponent(axis, -Math.sign(direction));
+    }
+    exit = Math.min(exit, far);
+    if (enter > exit) return null;
+  }
+  return enter;
+};
+
+// 局部射线与竖直圆柱求交：顶底面取 slab，侧面解二次方程
+const intersectCylinder = (ray: Ray, halfSize: Vector3, normal: Vector3): number | null => {
+  const { origin, direction } = ray;
+  const radius = halfSize.x;
+  let enter = 0;
+  let exit = Infinity;
+  let side = false;
+  normal.copy(direction).negate();
+
+  if (Math.abs(direction.y) < EPSILON) {
+    if (Math.abs(origin.y) > halfSize.y) return null;
+  } else {
+    const near = (-Math.sign(direction.y) * halfSize.y - origin.y) / direction.y;
+    const far = (Math.sign(direction.y) * halfSize.y - origin.y) / direction.y;
+    if (near > enter) {
+      enter = near;
+      normal.set(0, -Math.sign(direction.y), 0);
+    }
+    exit = far;
+  }
+
+  const a = direction.x * direction.x + direction.z * direction.z;
+  const b = origin.x * direction.x + origin.z * direction.z;
+  const c = origin.x * origin.x + origin.z * origin.z - radius * radius;
+  if (a < EPSILON) {
+    if (c > 0) return null;
+  } else {
+    const discriminant = b * b - a * c;
+    if (discriminant < 0) return null;
+    const root = Math.sqrt(discriminant);
+    const near = (-b - root) / a;
+    if (near > enter) {
+      enter = near;
+      side = true;
+    }
+    exit = Math.min(exit, (-b + root) / a);
+  }
+
+  if (enter > exit) return null;
+  if (side) {
+    normal.set(origin.x + direction.x * enter, 0, origin.z + direction.z * enter).normalize();
+  }
+  return enter;
+};
+
+const localRay = new Ray();
+const localNormal = new Vector3();
+const boundsPoint = new Vector3();
+
+// 关卡的静态碰撞体（地面、方块、圆柱、斜坡），供子弹、瞄准和第三人称相机检测遮挡
+// 先用世界包围盒粗筛，再在几何体局部空间精确求交，不需要遍历场景中的模型
+export class LevelColliders {
+  private colliders: Collider[] = [];
+  private ray = new Ray();
+
+  constructor(level: LevelData) {
+    const { size, y } = level.ground;
+    this.colliders.push(createCollider(
+      'box',
+      new Vector3(0, y - GROUND_THICKNESS / 2, 0),
+      new Quaternion(),
+      new Vector3(size, GROUND_THICKNESS, size)
+    ));
+
+    level.geometry.forEach((shape) => {
+      if (shape.type === 'ramp') {
+        const { position, quaternion, size } = getRampSlab(shape);
+        this.colliders.push(createCollider('box', position, quaternion, size));
+        return;
+      }
+
+      const position = new Vector3(...shape.position);
+      const quaternion = new Quaternion().setFromAxisAngle(new Vector3(0, 1, 0), shape.rotation ?? 0);
+      const size = shape.type === 'box'
+        ? new Vector3(...shape.size)
+        : new Vector3(shape.radius * 2, shape.height, shape.radius * 2);
+      this.colliders.push(createCollider(shape.type, position, quaternion, size));
+    });
+  }
+
+  // 从 origin 沿 direction（单位向量）检测 far 距离内最近的碰撞
+  raycast(origin: Vector3, direction: Vector3, far: number): ColliderHit | null {
+    this.ray.set(origin, direction);
+    let nearest: ColliderHit | null = null;
+
+    for (const collider of this.colliders) {
+      const limit = nearest ? nearest.distance : far;
+      if (!this.ray.intersectBox(collider.bounds, boundsPoint)) continue;
+      if (boundsPoint.distanceTo(origin) > limit) continue;
+
+      localRay.copy(this.ray).applyMatrix4(collider.inverse);
+      const distance = collider.type === 'box'
+        ? intersectBox(localRay, collider.halfSize, localNormal)
+        : intersectCylinder(localRay, collider.halfSize, localNormal);
+      if (distance === null || distance > limit) continue;
+
+      nearest = {
+        distance,
+        point: origin.clone().addScaledVector(direction, distance),
+        normal: localNormal.clone().transformDirection(collider.matrix)
+      };
+    }
+    return nearest;
+  }
+}
@@ -0,0 +1,255 @@
+import { Vector3 } from 'three';
+import type { Footprint } from './level';
+
+interface NavGridOptions {
+  size: number; // 覆盖的正方形区域边长（以原点为中心）
+  cellSize: number;
+  obstacles: Footprint[];
+  padding: number; // 障碍物外扩距离（寻路者半径）
+}
+
+// 8方向邻居：[dx, dz, 代价]
+const NEIGHBORS: [number, number, number][] = [
+  [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+  [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2]
+];
+
+// 按 f 值排序的二叉堆，保存格子索引
+class OpenHeap {
+  private items: number[] = [];
+  private scores: Float32Array;
+
+  constructor(scores: Float32Array) {
+    this.scores = scores;
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(index: number) {
+    const { items, scores } = this;
+    items.push(index);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (scores[items[parent]] <= scores[items[i]]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const { items, scores } = this;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && scores[items[left]] < scores[items[smallest]]) smallest = left;
+        if (right < items.length && scores[items[right]] < scores[items[smallest]]) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// 由建筑占地生成的导航网格，使用 A* 在格子间寻路
+export class NavGrid {
+  readonly cellSize: number;
+  readonly columns: number;
+  readonly rows: number;
+  private readonly origin: number; // 网格左下角的世界坐标（x 与 z 相同）
+  private readonly blocked: Uint8Array;
+
+  // A* 工作缓冲区，多次寻路复用
+  private readonly gScores: Float32Array;
+  private readonly fScores: Float32Array;
+  private readonly cameFrom: Int32Array;
+  private readonly visited: Uint32Array;
+  private readonly closed: Uint32Array;
+  private searchId = 0;
+
+  constructor({ size, cellSize, obstacles, padding }: NavGridOptions) {
+    this.cellSize = cellSize;
+    this.columns = Math.ceil(size / cellSize);
+    this.rows = this.columns;
+    this.origin = -size / 2;
+
+    const count = this.columns * this.rows;
+    this.blocked = new Uint8Array(count);
+    this.gScores = new Float32Array(count);
+    this.fScores = new Float32Array(count);
+    this.cameFrom = new Int32Array(count);
+    this.visited = new Uint32Array(count);
+    this.closed = new Uint32Array(count);
+
+    for (const obstacle of obstacles) {
+      const minColumn = this.toColumn(obstacle.x - obstacle.halfWidth - padding);
+      const maxColumn = this.toColumn(obstacle.x + obstacle.halfWidth + padding);
+      const minRow = this.toRow(obstacle.z - obstacle.halfDepth - padding);
+      const maxRow = this.toRow(obstacle.z + obstacle.halfDepth + padding);
+
+      for (let row = minRow; row <= maxRow; row++) {
+        for (let column = minColumn; column <= maxColumn; column++) {
+          this.blocked[row * this.columns + column] = 1;
+        }
+      }
+    }
+  }
+
+  isWalkable(x: number, z: number) {
+    const column = Math.floor((x - this.origin) / this.cellSize);
+    const row = Math.floor((z - this.origin) / this.cellSize);
+    if (column < 0 || row < 0 || column >= this.columns || row >= this.rows) return false;
+    return this.blocked[row * this.columns + column] === 0;
+  }
+
+  // 寻找从 from 到 to 的路径，返回平滑后的路点（不含起点），无法到达时返回 null
+  findPath(from: Vector3, to: Vector3): Vector3[] | null {
+    const start = this.nearestWalkable(this.toIndex(from.x, from.z));
+    const goal = this.nearestWalkable(this.toIndex(to.x, to.z));
+    if (start < 0 || goal < 0) return null;
+    if (start === goal) return [to.clone()];
+
+    const { columns, rows, blocked, gScores, fScores, cameFrom, visited, closed } = this;
+    const searchId = ++this.searchId;
+    const goalColumn = goal % columns;
+    const goalRow = Math.floor(goal / columns);
+
+    // 八方向距离估价
+    const heuristic = (index: number) => {
+      const dx = Math.abs(index % columns - goalColumn);
+      const dz = Math.abs(Math.floor(index / columns) - goalRow);
+      return Math.max(dx, dz) + (Math.SQRT2 - 1) * Math.min(dx, dz);
+    };
+
+    const open = new OpenHeap(fScores);
+    visited[start] = searchId;
+    gScores[start] = 0;
+    fScores[start] = heuristic(start);
+    cameFrom[start] = -1;
+    open.push(start);
+
+    while (open.size > 0) {
+      const current = open.pop();
+      if (current === goal) return this.buildPath(goal, from.y, to);
+      // 同一格子可能被多次加入堆中，只展开一次
+      if (closed[current] === searchId) continue;
+      closed[current] = searchId;
+
+      const column = current % columns;
+      const row = Math.floor(current / columns);
+
+      for (const [dx, dz, cost] of NEIGHBORS) {
+        const nextColumn = column + dx;
+        const nextRow = row + dz;
+        if (nextColumn < 0 || nextRow < 0 || nextColumn >= columns || nextRow >= rows) continue;
+
+        const next = nextRow * columns + nextColumn;
+        if (blocked[next]) continue;
+        // 斜向移动时不允许穿过障碍物的拐角
+        if (dx !== 0 && dz !== 0 && (blocked[row * columns + nextColumn] || blocked[nextRow * columns + column])) continue;
+
+        const g = gScores[current] + cost;
+        if (visited[next] === searchId && g >= gScores[next]) continue;
+
+        visited[next] = searchId;
+        gScores[next] = g;
+        fScores[next] = g + heuristic(next);
+        cameFrom[next] = current;
+        open.push(next);
+      }
+    }
+
+    return null;
+  }
+
+  // 两点之间是否可直线通行
+  hasLineOfSight(from: Vector3, to: Vector3) {
+    const dx = to.x - from.x;
+    const dz = to.z - from.z;
+    const steps = Math.ceil(Math.hypot(dx, dz) / (this.cellSize * 0.5));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      if (!this.isWalkable(from.x + dx * t, from.z + dz * t)) return false;
+    }
+    return true;
+  }
+
+  cellCenter(index: number, y: number) {
+    const column = index % this.columns;
+    const row = Math.floor(index / this.columns);
+    return new Vector3(
+      this.origin + (column + 0.5) * this.cellSize,
+      y,
+      this.origin + (row + 0.5) * this.cellSize
+    );
+  }
+
+  private toColumn(x: number) {
+    return Math.min(this.columns - 1, Math.max(0, Math.floor((x - this.origin) / this.cellSize)));
+  }
+
+  private toRow(z: number) {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor((z - this.origin) / this.cellSize)));
+  }
+
+  private toIndex(x: number, z: number) {
+    return this.toRow(z) * this.columns + this.toColumn(x);
+  }
+
+  // 起点或终点落在障碍物内时，向外逐圈查找最近的可通行格子
+  private nearestWalkable(index: number) {
+    if (!this.blocked[index]) return index;
+
+    const column = index % this.columns;
+    const row = Math.floor(index / this.columns);
+    const maxRadius = Math.max(this.columns, this.rows);
+
+    for (let radius = 1; radius < maxRadius; radius++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (Math.max(Math.abs(dx), Math.abs(dz)) !== radius) continue;
+          const c = column + dx;
+          const r = row + dz;
+          if (c < 0 || r < 0 || c >= this.columns || r >= this.rows) continue;
+          const candidate = r * this.columns + c;
+          if (!this.blocked[candidate]) return candidate;
+        }
+      }
+    }
+
+    return -1;
+  }
+
+  // 回溯格子路径，并去掉可以直线到达的中间路点
+  private buildPath(goal: number, y: number, to: Vector3) {
+    const cells: Vector3[] = [];
+    for (let index = goal; index !== -1; index = this.cameFrom[index]) {
+      cells.push(this.cellCenter(index, y));
+    }
+    cells.reverse();
+
+    // 终点在可通行区域内时直接使用精确位置
+    if (this.isWalkable(to.x, to.z)) cells[cells.length - 1] = new Vector3(to.x, y, to.z);
+
+    const path: Vector3[] = [];
+    let anchor = cells[0];
+    for (let i = 1; i < cells.length; i++) {
+      if (i === cells.length - 1 || !this.hasLineOfSight(anchor, cells[i + 1])) {
+        path.push(cells[i]);
+        anchor = cells[i];
+      }
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,137 @@
+import type { ParticleConfig } from './particles';
+import type { EffectKind } from './effects';
+import type { EmitterData, Vec3 } from './level';
+
+// 关卡中的粒子发射器转换为发射器配置和摆放位置，内置发射器只做简单的循环运动，默认放在 GPU 上模拟
+export const levelEmitterConfig = (emitter: EmitterData): { config: ParticleConfig; position?: Vec3 } => {
+  switch (emitter.type) {
+    // 星空：一次性铺满，整体缓慢旋转
+    case 'stars':
+      return {
+        config: {
+          maxParticles: emitter.count,
+          shape: { type: 'box', size: [emitter.spread, emitter.spread, emitter.spread] },
+          rate: 0,
+          initialCount: emitter.count,
+          lifetime: [Infinity, Infinity],
+          velocity: { type: 'box', min: [0, 0, 0], max: [0, 0, 0] },
+          gravity: 0,
+          color: ['#ffffff'],
+          size: [emitter.size],
+          opacity: [0.8],
+          blending: 'normal',
+          spin: emitter.rotationSpeed * 60,
+          backend: emitter.backend ?? 'gpu'
+        }
+      };
+
+    // 瀑布：从顶部匀速落下，落到底部（顶部以下 1.5 倍高度）回收
+    case 'waterfall': {
+      const { position, count, size, speed, spread, height } = emitter;
+      const fallSpeed = speed * 20;
+      const fallDistance = height * 1.5;
+      return {
+        position: [position[0], position[1] + height, position[2]],
+        config: {
+          maxParticles: count,
+          shape: { type: 'box', size: [spread, 0, 5] },
+          rate: count / (fallDistance / fallSpeed),
+          prewarm: fallDistance / (fallSpeed * 0.5),
+          lifetime: [Infinity, Infinity],
+          velocity: { type: 'box', min: [0, -fallSpeed * 1.5, 0], max: [0, -fallSpeed * 0.5, 0] },
+          gravity: 0,
+          bounds: [-fallDistance, Infinity],
+          color: ['#55aaff'],
+          size: [size],
+          opacity: [0.7],
+          blending: 'additive',
+          backend: emitter.backend ?? 'gpu'
+        }
+      };
+    }
+
+    // 喷泉：从圆盘向上喷射，受重力落回地面后回收，不会超过 height
+    case 'fountain': {
+      const { position, count, size, power, height } = emitter;
+      const gravity = -40;
+      const maxUpSpeed = power * 19.5;
+      return {
+        position,
+        config: {
+          maxParticles: count,
+          shape: { type: 'disc', radius: 2 },
+          rate: count / ((power * 10.5 * 2) / -gravity),
+          prewarm: (maxUpSpeed * 2) / -gravity,
+          lifetime: [Infinity, Infinity],
+          velocity: { type: 'box', min: [-1, power * 1.5, -1], max: [1, maxUpSpeed, 1] },
+          gravity,
+          bounds: [0, height],
+          color: ['#ffaa55'],
+          size: [size],
+          opacity: [0.8],
+          blending: 'additive',
+          backend: emitter.backend ?? 'gpu'
+        }
+      };
+    }
+
+    case 'custom':
+      return { config: emitter.config, position: emitter.position };
+  }
+};
+
+// 一次性效果：发射器配置和每次触发发射的粒子数
+export const EFFECT_PRESETS: Record<EffectKind, { config: ParticleConfig; count: number }> = {
+  // 枪口火焰：沿射击方向短促喷出
+  muzzleFlash: {
+    count: 10,
+    config: {
+      maxParticles: 256,
+      shape: { type: 'point' },
+      rate: 0,
+      lifetime: [0.04, 0.08],
+      velocity: { type: 'cone', direction: [0, 0, -1], angle: 0.35, speed: [2, 6] },
+      gravity: 0,
+      color: ['#ffdd88', '#ff5500'],
+      size: [0.25, 0.05],
+      opacity: [1, 0],
+      blending: 'additive'
+    }
+  },
+
+  // 命中火花：沿命中面法线溅射并下落
+  impact: {
+    count: 12,
+    config: {
+      maxParticles: 1024,
+      shape: { type: 'point' },
+      rate: 0,
+      lifetime: [0.2, 0.5],
+      velocity: { type: 'cone', direction: [0, 1, 0], angle: 0.8, speed: [3, 8] },
+      gravity: -20,
+      drag: 2,
+      color: ['#ffffff', '#ffaa55'],
+      size: [0.12, 0.04],
+      opacity: [1, 0],
+      blending: 'additive'
+    }
+  },
+
+  // 爆炸：火球向四周扩散后变暗消散
+  explosion: {
+    count: 80,
+    config: {
+      maxParticles: 2048,
+      shape: { type: 'sphere', radius: 0.3 },
+      rate: 0,
+      lifetime: [0.4, 1],
+      velocity: { type: 'radial', speed: [4, 12] },
+      gravity: -4,
+      drag: 3,
+      color: ['#ffffaa', '#ff6600', '#442222'],
+      size: [0.6, 1.2, 0.3],
+      opacity: [1, 0.8, 0],
+      blending: 'additive'
+    }
+  }
+};
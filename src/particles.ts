@@ -0,0 +1,256 @@
+import { Color, MathUtils, Vector3 } from 'three';
+import type { Random } from './random';
+
+type Vec3 = [number, number, number];
+
+// 发射形状：新粒子在发射点附近的初始位置分布
+export type EmissionShape =
+  | { type: 'point' }
+  | { type: 'box'; size: Vec3 }
+  | { type: 'sphere'; radius: number }
+  | { type: 'disc'; radius: number }; // 水平圆盘
+
+// 初始速度分布
+export type VelocityDistribution =
+  | { type: 'box'; min: Vec3; max: Vec3 } // 各分量在范围内均匀取值
+  | { type: 'cone'; direction: Vec3; angle: number; speed: [number, number] } // 沿方向的锥形（角度为弧度）
+  | { type: 'radial'; speed: [number, number] }; // 从发射点向外
+
+export type ParticleBlending = 'additive' | 'normal';
+
+// 模拟后端：cpu 逐帧在 JS 中积分并上传整个缓冲区；gpu 在顶点着色器中按解析轨迹计算位置，只在发射时上传
+export type ParticleBackend = 'cpu' | 'gpu';
+
+// 粒子发射器配置，颜色、大小和不透明度随生命周期在各关键值间均匀插值
+export interface ParticleConfig {
+  maxParticles: number;
+  shape: EmissionShape;
+  rate: number; // 每秒持续发射的粒子数，0 表示只在触发时成批发射
+  initialCount?: number; // 创建时立即发射的粒子数
+  prewarm?: number; // 开始时预先模拟的秒数，使持续发射的效果一出现就是稳定状态
+  lifetime: [number, number]; // 寿命范围（秒），Infinity 表示不会自然消亡
+  velocity: VelocityDistribution;
+  gravity: number; // 竖直加速度（向下为负）
+  drag?: number; // 每秒速度衰减比例
+  bounds?: [number, number]; // 局部 y 超出 [下限, 上限] 的粒子直接回收
+  color: string[];
+  size: number[];
+  opacity: number[];
+  blending: ParticleBlending;
+  spin?: number; // 整个发射器绕 Y 轴的转速（弧度/秒）
+  backend?: ParticleBackend; // 默认 cpu
+}
+
+const PREWARM_STEP = 1 / 30;
+
+const tempOffset = new Vector3();
+const tempVelocity = new Vector3();
+const tempDirection = new Vector3();
+const tempRight = new Vector3();
+const tempUp = new Vector3();
+const tempColor = new Color();
+
+// 按归一化时间 t (0~1) 在关键值间线性插值
+export const sampleGradient = (values: number[], t: number) => {
+  if (values.length === 0) return 0;
+  if (values.length === 1) return values[0];
+
+  const position = MathUtils.clamp(t, 0, 1) * (values.length - 1);
+  const index = Math.min(Math.floor(position), values.length - 2);
+  return MathUtils.lerp(values[index], values[index + 1], position - index);
+};
+
+const sampleColor = (stops: Color[], t: number, target: Color) => {
+  if (stops.length === 1) return target.copy(stops[0]);
+
+  const position = MathUtils.clamp(t, 0, 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  return target.copy(stops[index]).lerp(stops[index + 1], position - index);
+};
+
+// 球面上均匀分布的单位向量
+const randomDirection = (rng: Random, target: Vector3) => {
+  const z = rng.range(-1, 1);
+  const angle = rng.next() * Math.PI * 2;
+  const r = Math.sqrt(1 - z * z);
+  return target.set(Math.cos(angle) * r, Math.sin(angle) * r, z);
+};
+
+// 按发射形状取新粒子相对发射点的位置
+export const sampleShape = (shape: EmissionShape, rng: Random, target: Vector3) => {
+  switch (shape.type) {
+    case 'point':
+      return target.set(0, 0, 0);
+    case 'box':
+      return target.set(rng.spread(shape.size[0]), rng.spread(shape.size[1]), rng.spread(shape.size[2]));
+    case 'sphere':
+      return randomDirection(rng, target).multiplyScalar(shape.radius * Math.cbrt(rng.next()));
+    case 'disc': {
+      const angle = rng.next() * Math.PI * 2;
+      const radius = shape.radius * Math.sqrt(rng.next());
+      return target.set(Math.cos(angle) * radius, 0, Math.sin(angle) * radius);
+    }
+  }
+};
+
+// 按速度分布取初始速度；offset 为粒子相对发射点的位置，direction 覆盖锥形速度的方向
+export const sampleVelocity = (
+  velocity: VelocityDistribution,
+  rng: Random,
+  offset: Vector3,
+  target: Vector3,
+  direction?: Vector3
+) => {
+  switch (velocity.type) {
+    case 'box':
+      return target.set(
+        rng.range(velocity.min[0], velocity.max[0]),
+        rng.range(velocity.min[1], velocity.max[1]),
+        rng.range(velocity.min[2], velocity.max[2])
+      );
+    case 'cone': {
+      const axis = direction ? tempDirection.copy(direction) : tempDirection.fromArray(velocity.direction);
+      axis.normalize();
+      tempUp.set(0, 1, 0);
+      if (Math.abs(axis.y) > 0.99) tempUp.set(1, 0, 0);
+      tempRight.crossVectors(axis, tempUp).normalize();
+      tempUp.crossVectors(tempRight, axis).normalize();
+
+      // 在锥形底面的圆盘内均匀取点
+      const angle = rng.next() * Math.PI * 2;
+      const radius = Math.sqrt(rng.next()) * Math.tan(velocity.angle);
+      return target.copy(axis)
+        .addScaledVector(tempRight, Math.cos(angle) * radius)
+        .addScaledVector(tempUp, Math.sin(angle) * radius)
+        .normalize()
+        .multiplyScalar(rng.range(velocity.speed[0], velocity.speed[1]));
+    }
+    case 'radial': {
+      if (offset.lengthSq() > 1e-6) target.copy(offset).normalize();
+      else randomDirection(rng, target);
+      return target.multiplyScalar(rng.range(velocity.speed[0], velocity.speed[1]));
+    }
+  }
+};
+
+// 寿命范围上下限相同时直接取值（避免 Infinity - Infinity）
+export const sampleLifetime = ([minLife, maxLife]: [number, number], rng: Random) =>
+  minLife === maxLife ? minLife : rng.range(minLife, maxLife);
+
+// 固定容量的粒子池：与弹丸池一样使用连续的类型化数组，活跃粒子紧凑排列在 [0, count)
+// positions、colors、sizes 直接作为渲染缓冲区使用
+export class ParticleSystem {
+  readonly config: ParticleConfig;
+  readonly capacity: number;
+  count = 0;
+
+  readonly positions: Float32Array;
+  readonly colors: Float32Array; // rgba
+  readonly sizes: Float32Array;
+  readonly velocities: Float32Array;
+  readonly ages: Float32Array;
+  readonly lifetimes: Float32Array;
+
+  private rng: Random;
+  private colorStops: Color[];
+  private pendingEmission = 0; // 持续发射累积的小数部分
+
+  constructor(config: ParticleConfig, rng: Random) {
+    this.config = config;
+    this.rng = rng;
+    this.capacity = config.maxParticles;
+    this.positions = new Float32Array(this.capacity * 3);
+    this.colors = new Float32Array(this.capacity * 4);
+    this.sizes = new Float32Array(this.capacity);
+    this.velocities = new Float32Array(this.capacity * 3);
+    this.ages = new Float32Array(this.capacity);
+    this.lifetimes = new Float32Array(this.capacity);
+    this.colorStops = config.color.map((color) => new Color(color));
+
+    if (config.initialCount) this.emit(config.initialCount);
+    if (config.prewarm) {
+      for (let time = 0; time < config.prewarm; time += PREWARM_STEP) this.update(PREWARM_STEP);
+    }
+  }
+
+  // 在 origin（发射器局部坐标）处发射一批粒子；direction 覆盖锥形速度的方向
+  emit(count: number, origin?: Vector3, direction?: Vector3) {
+    const { rng, config } = this;
+
+    for (let n = 0; n < count && this.count < this.capacity; n++) {
+      const i = this.count++;
+      sampleShape(config.shape, rng, tempOffset);
+      sampleVelocity(config.velocity, rng, tempOffset, tempVelocity, direction);
+      if (origin) tempOffset.add(origin);
+
+      tempOffset.toArray(this.positions, i * 3);
+      tempVelocity.toArray(this.velocities, i * 3);
+      this.ages[i] = 0;
+      this.lifetimes[i] = sampleLifetime(config.lifetime, rng);
+      this.writeAppearance(i, 0);
+    }
+  }
+
+  // 推进模拟：持续发射、运动积分、回收到期或越界的粒子，并刷新颜色和大小
+  update(delta: number) {
+    const { config, positions, velocities } = this;
+
+    if (config.rate > 0) {
+      this.pendingEmission += config.rate * delta;
+      const count = Math.floor(this.pendingEmission);
+      this.pendingEmission -= count;
+      this.emit(count);
+    }
+
+    const damping = config.drag ? Math.max(0, 1 - config.drag * delta) : 1;
+
+    for (let i = this.count - 1; i >= 0; i--) {
+      const i3 = i * 3;
+      this.ages[i] += delta;
+
+      velocities[i3 + 1] += config.gravity * delta;
+      if (damping !== 1) {
+        velocities[i3] *= damping;
+        velocities[i3 + 1] *= damping;
+        velocities[i3 + 2] *= damping;
+      }
+      positions[i3] += velocities[i3] * delta;
+      positions[i3 + 1] += velocities[i3 + 1] * delta;
+      positions[i3 + 2] += velocities[i3 + 2] * delta;
+
+      const y = positions[i3 + 1];
+      const outOfBounds = !!config.bounds && (y < config.bounds[0] || y > config.bounds[1]);
+      if (this.ages[i] >= this.lifetimes[i] || outOfBounds) {
+        this.remove(i);
+        continue;
+      }
+
+      this.writeAppearance(i, this.ages[i] / this.lifetimes[i]);
+    }
+  }
+
+  clear() {
+    this.count = 0;
+    this.pendingEmission = 0;
+  }
+
+  private writeAppearance(i: number, t: number) {
+    const { config } = this;
+    sampleColor(this.colorStops, t, tempColor).toArray(this.colors, i * 4);
+    this.colors[i * 4 + 3] = sampleGradient(config.opacity, t);
+    this.sizes[i] = sampleGradient(config.size, t);
+  }
+
+  // 与末尾元素交换后移除
+  private remove(i: number) {
+    const last = --this.count;
+    if (i === last) return;
+
+    this.positions.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.velocities.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.colors.copyWithin(i * 4, last * 4, last * 4 + 4);
+    this.sizes[i] = this.sizes[last];
+    this.ages[i] = this.ages[last];
+    this.lifetimes[i] = this.lifetimes[last];
+  }
+}
@@ -1,247 +1,468 @@
 import { forwardRef, useRef, useEffect, useState } from 'react';
-import { Group, Mesh, Vector3, MathUtils, Euler, Box3, Raycaster } from 'three';
-import { useFrame, useThree } from '@react-three/fiber';
+import { Group, Object3D, Vector3, MathUtils } from 'three';
+import { useThree } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
+import { useCompoundBody } from '@react-three/cannon';
+import type { CollideEvent } from '@react-three/cannon';
+import { PLAYER_ID, damageRegistry, useDamageable } from './damage';
+import type { HitEvent } from './damage';
+import CharacterModel from './CharacterModel';
+import WeaponModel from './WeaponModel';
+import { resolveHitscan, solveAimPoint } from './aim';
+import { ProjectilePool } from './projectilePool';
+import type { ProjectileView } from './projectilePool';
+import Projectiles from './Projectiles';
+import { TracerPool } from './tracerPool';
+import Tracers from './Tracers';
+import { usePointerLock } from './pointerLock';
+import { GamepadReader, actionForCode, useInputBindings } from './input';
+import type { InputAction } from './input';
+import { gameStore, useGameStore } from './gameStore';
+import type { WeaponStatus } from './gameStore';
+import { PlayerController } from './playerController';
+import { Animator } from './animation';
+import type { RigBones } from './animation';
+import { PLAYER_CLIPS } from './animationClips';
+import { cameraRig, isDetachedMode, useCameraRig } from './cameraRig';
+import { SampledPositionHistory, useFixedFrame } from './gameLoop';
+import type { HazardData, PickupData } from './level';
+import type { LevelColliders } from './levelColliders';
+import { WEAPONS, WEAPON_ORDER, applySpread, sampleRecoil } from './weapons';
+import type { WeaponId } from './weapons';
+import { random } from './random';
+import { effectBus } from './effects';
+
+// 受击方向指示
+interface HitIndicator {
+  angle: number; // 相对相机朝向的屏幕角度（顺时针，0为正前方）
+  life: number;
+}
 
-type BodyPartSize = [
-  width: number,
-  height: number,
-  depth: number,
-  widthSegments?: number,
-  heightSegments?: number,
-  depthSegments?: number
-];
-
-interface Bullet {
-  id: number;
-  position: Vector3;
-  direction: Vector3;
-  velocity: number;
-  lifespan: number;
+// 武器状态：由模拟步直接读写，同一帧内的多个固定步长都能看到最新的弹药和换弹状态
+interface Loadout {
+  weapon: WeaponId;
+  ammo: Record<WeaponId, number>;
+  reloadEndTime: number | null; // 换弹完成的模拟时间，未换弹时为 null
+  reloadStartedAt: number; // 开始换弹时的 gameStore.time，供HUD绘制进度
 }
 
+const weaponStatus = ({ weapon, ammo, reloadEndTime, reloadStartedAt }: Loadout): WeaponStatus => ({
+  name: WEAPONS[weapon].name,
+  ammo: ammo[weapon],
+  magazineSize: WEAPONS[weapon].magazineSize,
+  isReloading: reloadEndTime !== null,
+  reloadStartedAt,
+  reloadTime: WEAPONS[weapon].reloadTime
+});
+
+const MAX_PROJECTILES = 4096; // 弹丸池容量
+const MAX_TRACERS = 64; // 曳光池容量
+const TRACER_LIFE = 0.08; // 曳光持续时间（秒）
+const AIM_DISTANCE = 200; // 准星射线最远距离
+const GAMEPAD_LOOK_SPEED = 2.5; // 右摇杆转动速度（弧度/秒）
+const INVULNERABILITY_TIME = 0.6; // 受击后的无敌时间（秒）
+const RESPAWN_DELAY = 3; // 死亡到重生的时间
+const RESPAWN_INVULNERABILITY = 2; // 重生后的无敌时间
+const FALL_DAMAGE_SPEED = 18; // 落地速度超过此值时受到坠落伤害（普通跳跃约为15）
+const FALL_DAMAGE_SCALE = 4; // 每超出1单位速度的伤害
+const HAZARD_INTERVAL = 1; // 危险区域伤害间隔
+const PICKUP_RADIUS = 1.5; // 拾取距离
+const HIT_INDICATOR_LIFE = 1;
+const MAX_HIT_INDICATORS = 4; // 同时显示的受击方向数，更多时替换最早的
+const HIT_MARKER_TIME = 0.15; // 准星命中反馈持续时间（秒）
+const MOVE_SPEED = 6; // 移动速度（单位/秒）
+const RUN_SPEED = MOVE_SPEED * 0.75; // 水平速度超过此值时播放跑步动画；键盘移动总是跑步，摇杆轻推为走路
+const LAND_ANIMATION_SPEED = 6; // 落地速度超过此值时播放落地动画
+
 interface PlayerProps {
   position?: [number, number, number];
   onAimingChange?: (isAiming: boolean) => void;
-  bossRef?: React.RefObject<Mesh>; // Boss模型引用
-  walls?: React.RefObject<Mesh>[]; // 墙体模型引用数组
-  onBossHit?: () => void; // Boss被击中回调
+  colliders?: LevelColliders; // 关卡静态碰撞体，子弹碰到即消失
+  onHit?: (event: HitEvent) => void; // 子弹命中可受击目标回调
+  mouseSensitivity?: number; // 鼠标灵敏度（弧度/像素）
+  invertY?: boolean; // 反转Y轴
+  onPointerLockChange?: (isLocked: boolean) => void;
+  maxHealth?: number;
+  armor?: number;
+  hazards?: HazardData[]; // 危险区域
+  pickups?: PickupData[];
+  killY?: number; // 低于此高度视为掉出世界
 }
 
 const Player = forwardRef<Group, PlayerProps>(({ 
   position = [0, 0, 0], 
   onAimingChange, 
-  bossRef, 
-  walls = [],
-  onBossHit 
+  colliders,
+  onHit,
+  mouseSensitivity = 0.0025,
+  invertY = false,
+  onPointerLockChange,
+  maxHealth = 100,
+  armor = 0,
+  hazards = [],
+  pickups = [],
+  killY = -30
 }, ref) => {
   const { camera, gl } = useThree();
-  const gunRef = useRef<Mesh>(null);
-  const leftArmRef = useRef<Mesh>(null);
-  const rightArmRef = useRef<Mesh>(null);
-  const leftLegRef = useRef<Mesh>(null);
-  const rightLegRef = useRef<Mesh>(null);
-  const bodyRef = useRef<Mesh>(null);
-  const fpsGunRef = useRef<Mesh>(null);
-  const headRef = useRef<Mesh>(null);
+  const gunRef = useRef<Group>(null);
+  const muzzleRef = useRef<Object3D>(null);
+  const crosshairAnchorRef = useRef<Group>(null);
+  const hitMarkerRef = useRef<HTMLDivElement>(null);
+  const fpsGunRef = useRef<Group>(null);
+  const hitboxRef = useRef<Object3D>(null);
   
   const internalRef = useRef<Group>(null);
   const playerRef = ref || internalRef;
   
-  const initialPosition = new Vector3(...position);
+  // 输入、运动和后坐力状态保存在控制器中，逐帧原地更新，不触发 React 渲染
+  // 跳跃速度足以跳上较矮的建筑，重力由物理世界提供
+  const [controller] = useState(() => new PlayerController({
+    moveSpeed: MOVE_SPEED,
+    crouchSpeedMultiplier: 0.5,
+    jumpSpeed: 15
+  }));
+  const [animator] = useState(() => new Animator(PLAYER_CLIPS));
+  const [bones] = useState<RigBones>(() => ({})); // 角色模型挂载后写入
   
-  const bodyParts = {
-    head: [0.8, 0.8, 0.8] as BodyPartSize,
-    body: [0.8, 1.2, 0.4] as BodyPartSize,
-    arm: [0.4, 0.8, 0.4] as BodyPartSize,
-    leg: [0.4, 0.8, 0.4] as BodyPartSize,
-    gun: [0.8, 0.2, 0.1] as BodyPartSize
-  };
-
-  const [keys, setKeys] = useState({
-    w: false,
-    a: false,
-    s: false,
-    d: false,
-    space: false,
-    shift: false
-  });
+  // 输入绑定与手柄
+  const bindings = useInputBindings();
+  const [gamepadReader] = useState(() => new GamepadReader());
+  const actionHandlers = useRef<{
+    press: (action: InputAction) => void;
+    release: (action: InputAction) => void;
+  } | null>(null);
 
-  const [isMoving, setIsMoving] = useState(false);
-  const [recoilProgress, setRecoilProgress] = useState(0);
-  
-  const [bullets, setBullets] = useState<Bullet[]>([]);
-  const bulletId = useRef(0);
+  // 弹丸数据保存在固定容量的池中，逐帧原地更新，不触发 React 渲染
+  const [projectilePool] = useState(() => new ProjectilePool(MAX_PROJECTILES));
+  const [tracerPool] = useState(() => new TracerPool(MAX_TRACERS, TRACER_LIFE));
+  const [spreadRandom] = useState(() => random.stream('weapon-spread'));
   
   const [isAiming, setIsAiming] = useState(false);
-  const [isFiring, setIsFiring] = useState(false);
-  const lastFireTime = useRef(0);
-  const fireRate = 100;
+  const simTime = useRef(0); // 模拟时间（秒），每个固定步长推进，用于换弹和射速计时
+  const lastFireTime = useRef(-Infinity);
   
-  const savedCameraState = useRef<{
-    position: Vector3;
-    rotation: Euler;
-  } | null>(null);
-  
-  const clockRef = useRef({
-    move: 0,
-    recoil: 0
+  // 武器相关状态：逻辑读写 loadout，React 状态只用于切换模型和换弹动画
+  const loadout = useRef<Loadout>({
+    weapon: 'rifle',
+    ammo: {
+      pistol: WEAPONS.pistol.magazineSize,
+      shotgun: WEAPONS.shotgun.magazineSize,
+      rifle: WEAPONS.rifle.magazineSize
+    },
+    reloadEndTime: null,
+    reloadStartedAt: 0
   });
+  const [currentWeapon, setCurrentWeapon] = useState<WeaponId>('rifle');
+  const [isReloading, setIsReloading] = useState(false);
+  const lastWheelSwitch = useRef(0);
+  const weapon = WEAPONS[currentWeapon];
   
-  // 鼠标控制相关状态
-  const [isMouseDown, setIsMouseDown] = useState(false);
-  const [mouseX, setMouseX] = useState(0);
-  const [mouseY, setMouseY] = useState(0);
-  const [rotationX, setRotationX] = useState(0);
-  const [rotationY, setRotationY] = useState(0);
-  const [initialRotationSet, setInitialRotationSet] = useState(false);
+  // 生命与死亡（出生点即 position，重生时回到这里）
+  const isDead = useRef(false);
+  const invulnerableTime = useRef(0);
+  const respawnTimer = useRef(0);
+  const hazardTimer = useRef(0);
+  // 受击方向指示的槽位，逐帧直接更新对应的 DOM 元素
+  const [hitIndicators] = useState<HitIndicator[]>(() =>
+    Array.from({ length: MAX_HIT_INDICATORS }, () => ({ angle: 0, life: 0 }))
+  );
+  const hitIndicatorRefs = useRef<(HTMLDivElement | null)[]>([]);
   
-  // 跳跃相关状态
-  const [isJumping, setIsJumping] = useState(false);
-  const [jumpVelocity, setJumpVelocity] = useState(0);
-  const jumpForce = 0.3;
-  const gravity = 0.015;
+  // 鼠标控制相关状态
+  const { isLocked, requestLock, releaseLock } = usePointerLock(gl.domElement);
+  const wasLocked = useRef(false);
+  const phase = useGameStore((state) => state.phase);
+  const { mode: cameraMode } = useCameraRig();
   
-  // 蹲下相关状态
+  // 蹲下会改变模型外观，作为渲染状态保留
   const [isCrouching, setIsCrouching] = useState(false);
-  const crouchSpeedMultiplier = 0.5; // 蹲下时的速度倍率
-  const normalSpeed = 0.1;
-  const crouchHeight = 0.5; // 蹲下时的高度减少量
-  const [originalCameraPositionY, setOriginalCameraPositionY] = useState(0);
+
+  // 同步物理刚体的位置和速度
+  const physicsPosition = useRef(new Vector3(...position));
+  const physicsVelocity = useRef(new Vector3());
+  const [physicsHistory] = useState(() => {
+    const initial = new SampledPositionHistory();
+    initial.reset(new Vector3(...position));
+    return initial;
+  });
   
-  // 相机跟随相关状态
-  const [cameraDistance, setCameraDistance] = useState(5); // 相机与角色的距离
-  const [minCameraDistance] = useState(3);
-  const [maxCameraDistance] = useState(8);
-  const [cameraHeight] = useState(1.5); // 相机高度
+  // 角色物理刚体：上下两个球体组成近似胶囊体，锁定旋转由鼠标控制朝向
+  // 摩擦为0，撞墙时保留沿墙方向的速度，实现贴墙滑动
+  const [, bodyApi] = useCompoundBody(() => ({
+    mass: 1,
+    position,
+    fixedRotation: true,
+    linearDamping: 0,
+    material: { friction: 0, restitution: 0 },
+    shapes: [
+      { type: 'Sphere', args: [0.6], position: [0, 0.7, 0] },
+      { type: 'Sphere', args: [0.6], position: [0, -0.7, 0] }
+    ],
+    // 接触点位于脚下时视为落地
+    onCollide: (e: CollideEvent) => {
+      if (e.contact.contactPoint[1] < physicsPosition.current.y - 1) {
+        controller.isGrounded = true;
+      }
+    }
+  }));
   
-  // 平滑相机移动
-  const cameraTargetPosition = useRef(new Vector3());
-  const cameraCurrentPosition = useRef(new Vector3());
-  const cameraSmoothing = useRef(0.1); // 平滑系数，值越小越平滑
-
-  // 碰撞检测射线
-  const raycaster = useRef(new Raycaster());
+  // 每次收到物理世界回报的新位置时记录一次，渲染时在最近两次回报之间插值
+  useEffect(() => bodyApi.position.subscribe((p) => {
+    physicsPosition.current.set(...p);
+    physicsHistory.sample(physicsPosition.current);
+  }), [bodyApi, physicsHistory]);
+  useEffect(() => bodyApi.velocity.subscribe((v) => physicsVelocity.current.set(...v)), [bodyApi]);
   
-  // 获取角色前方方向
-  const getPlayerForward = () => {
-    if (!playerRef || typeof playerRef === "function") return new Vector3(0, 0, -1);
-    if (!playerRef.current) return new Vector3(0, 0, -1);
-    
-    const forward = new Vector3(0, 0, -1);
-    forward.applyQuaternion(playerRef.current.quaternion);
-    return forward.normalize();
+  // 死亡：停止一切操作，等待重生
+  const die = () => {
+    isDead.current = true;
+    controller.firing = false;
+    setIsAiming(false);
+    respawnTimer.current = RESPAWN_DELAY;
+    gameStore.setPlayerDead(true);
+    gameStore.loseLife();
   };
-
-  // 键盘事件监听
+  
+  // 在出生点重生并恢复生命
+  const respawn = () => {
+    damageRegistry.revive(PLAYER_ID);
+    bodyApi.position.set(...position);
+    bodyApi.velocity.set(0, 0, 0);
+    physicsPosition.current.set(...position);
+    physicsHistory.reset(physicsPosition.current);
+    controller.fallSpeed = 0;
+    invulnerableTime.current = RESPAWN_INVULNERABILITY;
+    isDead.current = false;
+    gameStore.setPlayerHealth(maxHealth, maxHealth);
+    gameStore.setPlayerDead(false);
+  };
+  
+  // 拾取生命或弹药，返回是否生效
+  const collectPickup = (pickup: PickupData) => {
+    if (pickup.type === 'health') {
+      const health = damageRegistry.get(PLAYER_ID)?.health ?? 0;
+      if (health >= maxHealth) return false;
+      const healed = damageRegistry.heal(PLAYER_ID, pickup.amount);
+      if (healed === null) return false;
+      gameStore.setPlayerHealth(healed, maxHealth);
+      return true;
+    }
+    
+    const { ammo } = loadout.current;
+    if (WEAPON_ORDER.every((id) => ammo[id] >= WEAPONS[id].magazineSize)) return false;
+    WEAPON_ORDER.forEach((id) => {
+      ammo[id] = Math.min(WEAPONS[id].magazineSize, ammo[id] + pickup.amount);
+    });
+    publishWeapon();
+    return true;
+  };
+  
+  // 武器状态变化后同步到HUD和渲染用的React状态
+  const publishWeapon = () => {
+    const state = loadout.current;
+    setCurrentWeapon(state.weapon);
+    setIsReloading(state.reloadEndTime !== null);
+    gameStore.setWeapon(weaponStatus(state));
+  };
+  
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'w') setKeys((prev) => ({ ...prev, w: true }));
-      if (e.key === 'a') setKeys((prev) => ({ ...prev, a: true }));
-      if (e.key === 's') setKeys((prev) => ({ ...prev, s: true }));
-      if (e.key === 'd') setKeys((prev) => ({ ...prev, d: true }));
+    gameStore.setPlayerHealth(maxHealth, maxHealth);
+  }, [maxHealth]);
+  
+  // 初始武器状态显示到HUD
+  useEffect(() => {
+    gameStore.setWeapon(weaponStatus(loadout.current));
+  }, []);
+  
+  // 注册为玩家阵营的受击目标（自己的子弹不会命中自己）
+  useDamageable(hitboxRef, {
+    id: PLAYER_ID,
+    maxHealth,
+    armor,
+    team: 'player',
+    hitbox: { type: 'box', size: [1, 2.6, 1] },
+    isInvulnerable: () => isDead.current || invulnerableTime.current > 0,
+    onHit: (event) => {
+      gameStore.setPlayerHealth(event.remainingHealth, maxHealth);
+      invulnerableTime.current = INVULNERABILITY_TIME;
       
-      // 空格触发跳跃
-      if (e.key === ' ' && !isJumping) {
-        setKeys((prev) => ({ ...prev, space: true }));
-        setIsJumping(true);
-        setJumpVelocity(jumpForce);
+      // 按伤害来源相对相机朝向的角度显示受击方向
+      const { normal } = event;
+      if (normal.x !== 0 || normal.z !== 0) {
+        const forward = camera.getWorldDirection(new Vector3());
+        const angle = Math.atan2(
+          normal.x * -forward.z + normal.z * forward.x,
+          normal.x * forward.x + normal.z * forward.z
+        );
+        const slot = hitIndicators.reduce((oldest, indicator) => (indicator.life < oldest.life ? indicator : oldest));
+        slot.angle = angle;
+        slot.life = HIT_INDICATOR_LIFE;
       }
       
-      // Shift触发蹲下
-      if (e.key === 'Shift') {
-        setKeys((prev) => ({ ...prev, shift: true }));
-        setIsCrouching(true);
-        
-        // 保存原始相机Y位置
-        if (!isCrouching && isAiming && camera) {
-          setOriginalCameraPositionY(camera.position.y);
-        }
+      if (event.killed) die();
+    }
+  });
+  
+  // 动作处理依赖武器和生命等状态，每次渲染后更新；事件监听只在画布、绑定或锁定状态变化时重新订阅
+  useEffect(() => {
+    // 切换武器（会打断换弹）
+    const switchWeapon = (next: WeaponId) => {
+      loadout.current.weapon = next;
+      loadout.current.reloadEndTime = null;
+      controller.recoil = 0;
+      publishWeapon();
+    };
+    
+    // 开始换弹
+    const startReload = () => {
+      const state = loadout.current;
+      const equipped = WEAPONS[state.weapon];
+      if (state.reloadEndTime !== null || state.ammo[state.weapon] >= equipped.magazineSize) return;
+      state.reloadEndTime = simTime.current + equipped.reloadTime;
+      state.reloadStartedAt = gameStore.time;
+      publishWeapon();
+    };
+    
+    // 循环切换武器
+    const cycleWeapon = (step: number) => {
+      const index = WEAPON_ORDER.indexOf(loadout.current.weapon);
+      switchWeapon(WEAPON_ORDER[(index + step + WEAPON_ORDER.length) % WEAPON_ORDER.length]);
+    };
+    
+    // 动作按下（键盘、鼠标、手柄共用）
+    const pressAction = (action: InputAction) => {
+      if (!gameStore.isPlaying) return;
+      
+      // 相机动作由相机支架处理，死亡和脱离角色时也可用
+      switch (action) {
+        case 'cameraMode':
+          cameraRig.cycleMode();
+          return;
+        case 'swapShoulder':
+          cameraRig.swapShoulder();
+          return;
+        case 'zoomIn':
+          cameraRig.zoom(-1);
+          return;
+        case 'zoomOut':
+          cameraRig.zoom(1);
+          return;
       }
+      if (isDead.current || cameraRig.detached) return;
       
-      // 鼠标滚轮调整相机距离
-      if (e.key === '=' || e.key === '+') {
-        setCameraDistance(prev => Math.max(minCameraDistance, prev - 0.5));
+      // 移动、跳跃和蹲下由控制器记录
+      if (controller.press(action)) {
+        if (action === 'crouch') setIsCrouching(true);
+        return;
       }
-      if (e.key === '-' || e.key === '_') {
-        setCameraDistance(prev => Math.min(maxCameraDistance, prev + 0.5));
+      
+      switch (action) {
+        case 'fire':
+          controller.firing = true;
+          break;
+        case 'aim':
+          setIsAiming(true);
+          break;
+        case 'reload':
+          startReload();
+          break;
+        case 'nextWeapon':
+          cycleWeapon(1);
+          break;
+        case 'prevWeapon':
+          cycleWeapon(-1);
+          break;
+        case 'weapon1':
+        case 'weapon2':
+        case 'weapon3': {
+          const next = WEAPON_ORDER[Number(action.slice(-1)) - 1];
+          if (next && next !== loadout.current.weapon) switchWeapon(next);
+          break;
+        }
       }
     };
-
-    const handleKeyUp = (e: KeyboardEvent) => {
-      if (e.key === 'w') setKeys((prev) => ({ ...prev, w: false }));
-      if (e.key === 'a') setKeys((prev) => ({ ...prev, a: false }));
-      if (e.key === 's') setKeys((prev) => ({ ...prev, s: false }));
-      if (e.key === 'd') setKeys((prev) => ({ ...prev, d: false }));
-      
-      if (e.key === ' ') {
-        setKeys((prev) => ({ ...prev, space: false }));
+    
+    // 动作松开
+    const releaseAction = (action: InputAction) => {
+      if (controller.release(action)) {
+        if (action === 'crouch') setIsCrouching(false);
+        return;
       }
       
-      // Shift释放取消蹲下
-      if (e.key === 'Shift') {
-        setKeys((prev) => ({ ...prev, shift: false }));
-        setIsCrouching(false);
+      switch (action) {
+        case 'fire':
+          controller.firing = false;
+          controller.shotFiredThisPress = false;
+          break;
+        case 'aim':
+          setIsAiming(false);
+          break;
       }
     };
+    
+    actionHandlers.current = { press: pressAction, release: releaseAction };
+  });
+  
+  // 键盘和鼠标事件监听
+  useEffect(() => {
+    const pressAction = (action: InputAction) => actionHandlers.current?.press(action);
+    const releaseAction = (action: InputAction) => actionHandlers.current?.release(action);
+    
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Esc 暂停/继续并释放鼠标锁定（锁定时多数浏览器会自行释放，由锁定状态变化触发暂停）
+      if (e.code === 'Escape') {
+        releaseLock();
+        gameStore.togglePause();
+      }
+      
+      const action = actionForCode(bindings, e.code);
+      if (action) pressAction(action);
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const action = actionForCode(bindings, e.code);
+      if (action) releaseAction(action);
+    };
 
     const handleMouseDown = (e: MouseEvent) => {
-      if (e.button === 0) {
-        setIsFiring(true);
-      } else if (e.button === 2) {
-        savedCameraState.current = {
-          position: camera.position.clone(),
-          rotation: new Euler().copy(camera.rotation)
-        };
-        setIsAiming(true);
-      }
+      if (!gameStore.isPlaying) return;
       
-      // 鼠标左键按下开始跟踪鼠标移动
-      if (e.button === 0) {
-        setIsMouseDown(true);
-        setMouseX(e.clientX);
-        setMouseY(e.clientY);
+      // 未锁定时，左键点击只用于锁定鼠标，不触发射击
+      if (!isLocked) {
+        requestLock();
+        if (e.button === 0) return;
       }
+      
+      const action = actionForCode(bindings, `Mouse${e.button}`);
+      if (action) pressAction(action);
     };
 
     const handleMouseUp = (e: MouseEvent) => {
-      if (e.button === 0) {
-        setIsFiring(false);
-      } else if (e.button === 2) {
-        setIsAiming(false);
-      }
-      
-      // 鼠标左键释放停止跟踪鼠标移动
-      if (e.button === 0) {
-        setIsMouseDown(false);
-      }
+      const action = actionForCode(bindings, `Mouse${e.button}`);
+      if (action) releaseAction(action);
     };
 
+    // 锁定鼠标后使用原始位移量转动视角（脱离角色时由相机支架转动）
     const handleMouseMove = (e: MouseEvent) => {
-      if (isMouseDown) {
-        const deltaX = e.clientX - mouseX;
-        const deltaY = e.clientY - mouseY;
-        
-        // 更新旋转角度
-        setRotationY(rotationY - deltaX * 0.01);
-        setRotationX(Math.max(-Math.PI/2, Math.min(Math.PI/2, rotationX - deltaY * 0.01)));
-        
-        setMouseX(e.clientX);
-        setMouseY(e.clientY);
-      }
+      if (!isLocked || cameraRig.detached) return;
+      
+      const pitchDirection = invertY ? 1 : -1;
+      controller.look(e.movementX * mouseSensitivity, e.movementY * mouseSensitivity * pitchDirection);
     };
 
     const handleContextMenu = (e: MouseEvent) => {
       e.preventDefault();
     };
 
-    // 鼠标滚轮事件处理
+    // 鼠标滚轮（限制频率，避免触控板一次滑动触发多次）
     const handleWheel = (e: WheelEvent) => {
       e.preventDefault();
-      if (!isAiming) { // 只在第三人称视角下允许调整相机距离
-        const delta = e.deltaY > 0 ? 0.5 : -0.5;
-        setCameraDistance(prev => Math.max(minCameraDistance, Math.min(maxCameraDistance, prev + delta)));
-      }
+      const now = performance.now();
+      if (e.deltaY === 0 || now - lastWheelSwitch.current < 150) return;
+      lastWheelSwitch.current = now;
+      
+      const action = actionForCode(bindings, e.deltaY > 0 ? 'WheelDown' : 'WheelUp');
+      if (action) pressAction(action);
     };
 
     window.addEventListener('keydown', handleKeyDown);
@@ -263,7 +484,29 @@ const Player = forwardRef<Group, PlayerProps>(({
       canvas.removeEventListener('contextmenu', handleContextMenu);
       canvas.removeEventListener('wheel', handleWheel);
     };
-  }, [gl, isMouseDown, mouseX, mouseY, rotationX, rotationY, isJumping, isCrouching, camera, isAiming, minCameraDistance, maxCameraDistance]);
+  }, [gl, bindings, controller, isLocked, requestLock, releaseLock, mouseSensitivity, invertY]);
+  
+  // 鼠标锁定状态变化：释放锁定时停止射击，游戏中释放锁定（按 Esc）时暂停
+  useEffect(() => {
+    if (!isLocked) {
+      controller.firing = false;
+      controller.shotFiredThisPress = false;
+      if (wasLocked.current) gameStore.pause();
+    }
+    wasLocked.current = isLocked;
+    if (onPointerLockChange) onPointerLockChange(isLocked);
+  }, [controller, isLocked, onPointerLockChange]);
+
+  // 离开游戏阶段（暂停、结束）时释放鼠标
+  useEffect(() => {
+    if (phase !== 'playing') releaseLock();
+  }, [phase, releaseLock]);
+
+  // 换弹动画按当前武器的换弹时间播放，换弹被打断时淡出
+  useEffect(() => {
+    if (isReloading) animator.trigger('reload', animator.clips.reload.duration / weapon.reloadTime);
+    else animator.stop('reload');
+  }, [animator, isReloading, weapon.reloadTime]);
 
   // 瞄准状态变化回调
   useEffect(() => {
@@ -272,184 +515,266 @@ const Player = forwardRef<Group, PlayerProps>(({
     }
   }, [isAiming, onAimingChange]);
 
-  // 第一人称瞄准模式下更新相机位置
+  // 切换到脱离角色的相机模式时松开所有按键并退出瞄准，角色原地不动
   useEffect(() => {
-    if (isAiming && playerRef && typeof playerRef !== "function" && playerRef.current) {
-      const headPosition = playerRef.current.position.clone().add(new Vector3(0, 0.9, 0));
-      
-      // 蹲下状态下调整相机高度
-      if (isCrouching && originalCameraPositionY !== 0) {
-        camera.position.y = originalCameraPositionY - crouchHeight;
-      } else {
-        camera.position.copy(headPosition);
-      }
-      
-      // 设置相机旋转，确保画面是正的
-      camera.rotation.set(rotationX, rotationY, 0);
-    } else if (!isAiming && savedCameraState.current) {
-      // 恢复相机位置
-      camera.position.copy(savedCameraState.current.position);
-      camera.rotation.copy(savedCameraState.current.rotation);
-      savedCameraState.current = null;
-    }
-  }, [isAiming, camera, isCrouching, originalCameraPositionY, rotationX, rotationY]);
-
-  // 碰撞检测函数
-  const checkBulletCollision = (bullet: Bullet): boolean => {
-    // 1. 检测是否击中Boss
-    if (bossRef?.current) {
-      const bossBox = new Box3().setFromObject(bossRef.current);
-      if (bossBox.containsPoint(bullet.position)) {
-        if (onBossHit) onBossHit(); // 触发Boss被击中回调
-        return true;
-      }
-    }
-    
-    // 2. 检测是否击中墙体
-    for (const wallRef of walls) {
-      if (wallRef?.current) {
-        const wallBox = new Box3().setFromObject(wallRef.current);
-        if (wallBox.containsPoint(bullet.position)) {
-          return true;
-        }
-      }
-    }
-    
-    // 3. 高级射线检测（更精确）
-    raycaster.current.set(bullet.position, bullet.direction);
-    raycaster.current.far = 0.2; // 检测前方一小段距离
-    
-    // 检测所有墙体
-    const wallMeshes = walls
-      .map(ref => ref?.current)
-      .filter(mesh => mesh !== undefined) as Mesh[];
+    if (!isDetachedMode(cameraMode)) return;
+    controller.releaseAll();
+    setIsCrouching(false);
+    setIsAiming(false);
+  }, [cameraMode, controller]);
+
+  // 碰撞检测函数：检测子弹本帧移动的线段，返回是否需要移除子弹
+  const checkBulletCollision = (bullet: ProjectileView): boolean => {
+    const travel = bullet.to.distanceTo(bullet.from);
     
-    // 检测Boss
-    const bossMeshes = bossRef?.current ? [bossRef.current] : [];
+    // 1. 检测关卡几何体（会挡住后方的目标）
+    const wallHit = colliders?.raycast(bullet.from, bullet.direction, travel) ?? null;
     
-    const allTargets = [...wallMeshes, ...bossMeshes];
-    const intersects = raycaster.current.intersectObjects(allTargets, true);
+    // 2. 检测注册表中的可受击目标
+    const targetHit = damageRegistry.hitTest(bullet.from, bullet.to, 'player');
     
-    if (intersects.length > 0) {
-      // 如果击中的是Boss
-      if (bossRef?.current && intersects[0].object === bossRef.current) {
-        if (onBossHit) onBossHit();
-      }
+    if (targetHit && (!wallHit || targetHit.distance < wallHit.distance)) {
+      const event = damageRegistry.applyDamage(targetHit, bullet.damage, bullet.weapon);
+      gameStore.registerHit(event);
+      if (onHit) onHit(event);
+      effectBus.spawn('impact', targetHit.point, targetHit.normal);
       return true;
     }
     
-    return false;
+    if (wallHit) effectBus.spawn('impact', wallHit.point, wallHit.normal);
+    return !!wallHit;
   };
 
-  // 动画帧更新
-  useFrame(({ clock }, delta) => {
-    let playerGroup: Group | null = null;
+  // 游戏逻辑按固定步长模拟：移动、伤害判定、拾取、弹丸和射击
+  const simulate = (playerGroup: Group, delta: number) => {
+    simTime.current += delta;
+    
+    // 无敌时间
+    invulnerableTime.current = Math.max(0, invulnerableTime.current - delta);
     
-    if (typeof playerRef === 'function') {
-    } else if (playerRef && 'current' in playerRef) {
-      playerGroup = playerRef.current;
+    // 死亡后倒计时重生
+    if (isDead.current) {
+      respawnTimer.current -= delta;
+      if (respawnTimer.current <= 0) respawn();
     }
     
-    if (!playerGroup) return;
+    // 手柄：按键转换为动作，摇杆直接控制移动和视角
+    const pad = gamepadReader.poll(bindings.gamepad);
+    if (actionHandlers.current) {
+      pad.pressed.forEach(actionHandlers.current.press);
+      pad.released.forEach(actionHandlers.current.release);
+    }
+    if (!cameraRig.detached && (pad.look.x !== 0 || pad.look.y !== 0)) {
+      const pitchDirection = invertY ? -1 : 1;
+      controller.look(
+        pad.look.x * GAMEPAD_LOOK_SPEED * delta,
+        pad.look.y * GAMEPAD_LOOK_SPEED * delta * pitchDirection
+      );
+    }
     
-    // 设置初始视角，固定在子弹射击方向
-    if (!initialRotationSet) {
-      playerGroup.rotation.y = rotationY;
-      setInitialRotationSet(true);
+    // 水平移动：直接设置刚体速度，由物理世界处理碰撞（死亡或脱离角色时不能移动和跳跃）
+    const moveDirection = controller.moveVelocity(pad.move, new Vector3());
+    if (isDead.current || cameraRig.detached) {
+      moveDirection.set(0, 0, 0);
+      controller.jumpRequested = false;
     }
+    const verticalVelocity = controller.verticalVelocity(physicsVelocity.current.y);
     
-    // 计算当前移动速度（蹲下时减速）
-    const speed = isCrouching ? normalSpeed * crouchSpeedMultiplier : normalSpeed;
+    bodyApi.velocity.set(moveDirection.x, verticalVelocity, moveDirection.z);
     
-    const moving = keys.w || keys.a || keys.s || keys.d;
-    setIsMoving(moving);
+    if (!isDead.current) {
+      // 坠落伤害：记录滞空时的最大下落速度，落地时结算
+      const impactSpeed = controller.land(physicsVelocity.current.y);
+      if (impactSpeed > LAND_ANIMATION_SPEED) animator.trigger('land');
+      if (impactSpeed > FALL_DAMAGE_SPEED) {
+        const below = physicsPosition.current.clone().setY(physicsPosition.current.y - 1);
+        damageRegistry.applyDirectDamage(
+          PLAYER_ID,
+          (impactSpeed - FALL_DAMAGE_SPEED) * FALL_DAMAGE_SCALE,
+          'fall',
+          below
+        );
+      }
+      
+      // 掉出世界直接死亡（无视无敌时间）
+      if (physicsPosition.current.y < killY) {
+        invulnerableTime.current = 0;
+        damageRegistry.applyDirectDamage(PLAYER_ID, Infinity, 'void', physicsPosition.current);
+      }
+      
+      // 危险区域：进入时立即受到伤害，之后每隔一段时间结算一次
+      const { x, y, z } = physicsPosition.current;
+      const hazard = hazards.find((h) =>
+        y > h.position[1] && y < h.position[1] + 2 && Math.hypot(x - h.position[0], z - h.position[2]) < h.radius
+      );
+      if (hazard) {
+        hazardTimer.current -= delta;
+        if (hazardTimer.current <= 0) {
+          hazardTimer.current = HAZARD_INTERVAL;
+          damageRegistry.applyDirectDamage(
+            PLAYER_ID,
+            hazard.damage,
+            'hazard',
+            new Vector3(hazard.position[0], y, hazard.position[2])
+          );
+        }
+      } else {
+        hazardTimer.current = 0;
+      }
+      
+      // 拾取物：生命已满或弹药已满时不拾取
+      const { collectedPickups } = gameStore.getSnapshot();
+      for (const pickup of pickups) {
+        if (collectedPickups.includes(pickup.id)) continue;
+        if (physicsPosition.current.distanceTo(new Vector3(...pickup.position)) > PICKUP_RADIUS) continue;
+        if (collectPickup(pickup)) gameStore.collectPickup(pickup.id, pickup.respawnTime);
+      }
+    }
     
-    // 获取角色前方方向
-    const forward = getPlayerForward();
+    // 推进弹丸并检测整段移动路径，防止高速穿透（墙体只查关卡静态碰撞体，不遍历场景）
+    if (projectilePool.count > 0) {
+      projectilePool.update(delta, checkBulletCollision);
+    }
+    
+    // 曳光淡出
+    tracerPool.update(delta);
     
-    // 基于角色朝向的移动方向
-    const right = new Vector3();
-    right.crossVectors(new Vector3(0, 1, 0), forward).normalize();
+    // 换弹完成
+    const currentTime = simTime.current;
+    const state = loadout.current;
+    const weapon = WEAPONS[state.weapon];
+    if (state.reloadEndTime !== null && currentTime >= state.reloadEndTime) {
+      state.reloadEndTime = null;
+      state.ammo[state.weapon] = weapon.magazineSize;
+      publishWeapon();
+    }
     
-    // 水平移动角色
-    if (keys.w) playerGroup.position.add(forward.clone().multiplyScalar(speed));
-    if (keys.s) playerGroup.position.add(forward.clone().multiplyScalar(-speed));
-    if (keys.a) playerGroup.position.add(right.clone().multiplyScalar(-speed));
-    if (keys.d) playerGroup.position.add(right.clone().multiplyScalar(speed));
+    // 处理射击（半自动武器每次按下只发射一次）
+    const triggerReady = weapon.automatic || !controller.shotFiredThisPress;
+    const canFire = !isDead.current && controller.firing && triggerReady && state.reloadEndTime === null && currentTime - lastFireTime.current > weapon.fireRate / 1000;
     
-    // 处理跳跃
-    if (isJumping) {
-      // 应用重力
-      setJumpVelocity(jumpVelocity - gravity);
-      playerGroup.position.y += jumpVelocity;
+    if (canFire && state.ammo[state.weapon] <= 0) {
+      // 弹匣打空时自动换弹
+      state.reloadEndTime = currentTime + weapon.reloadTime;
+      state.reloadStartedAt = gameStore.time;
+      publishWeapon();
+    } else if (canFire) {
+      lastFireTime.current = currentTime;
+      controller.shotFiredThisPress = true;
+      state.ammo[state.weapon] -= 1;
+      publishWeapon();
+      controller.fireRecoil(weapon.recoil.duration);
+      animator.trigger('fire');
       
-      // 检测是否落地
-      if (playerGroup.position.y <= initialPosition.y) {
-        playerGroup.position.y = initialPosition.y;
-        setIsJumping(false);
-        setJumpVelocity(0);
+      // 第一人称视角上抬
+      if (isAiming) {
+        controller.look(0, MathUtils.degToRad(weapon.recoil.cameraKick));
       }
-    }
-    
-    // 蹲下效果
-    if (bodyRef.current) {
-      if (isCrouching) {
-        // 降低身体高度
-        bodyRef.current.scale.y = 0.7;
-        bodyRef.current.position.y = -0.3;
-        
-        // 调整手臂和腿部位置
-        if (leftArmRef.current && rightArmRef.current) {
-          leftArmRef.current.position.y = -0.2;
-          rightArmRef.current.position.y = -0.2;
-        }
-        
-        if (leftLegRef.current && rightLegRef.current) {
-          leftLegRef.current.position.y = -0.6;
-          rightLegRef.current.position.y = -0.6;
-        }
+      
+      let worldPosition: Vector3;
+      let direction: Vector3;
+      let tracerStart: Vector3;
+      
+      if (isAiming) {
+        // 第一人称：从相机位置发射，方向为相机前方
+        worldPosition = camera.position.clone();
+        direction = new Vector3(0, 0, -1);
+        direction.applyQuaternion(camera.quaternion);
+        tracerStart = new Vector3(0.2, -0.2, -0.5).applyMatrix4(camera.matrixWorld);
       } else {
-        // 恢复正常高度
-        bodyRef.current.scale.y = 1;
-        bodyRef.current.position.y = 0;
-        
-        // 恢复手臂和腿部位置
-        if (leftArmRef.current && rightArmRef.current) {
-          leftArmRef.current.position.y = 0;
-          rightArmRef.current.position.y = 0;
+        // 第三人称：从枪口发射，射向准星所指的位置
+        worldPosition = new Vector3();
+        if (muzzleRef.current) {
+          muzzleRef.current.getWorldPosition(worldPosition);
+        } else if (gunRef.current) {
+          gunRef.current.getWorldPosition(worldPosition);
+        } else {
+          worldPosition = camera.position.clone();
         }
         
-        if (leftLegRef.current && rightLegRef.current) {
-          leftLegRef.current.position.y = -0.9;
-          rightLegRef.current.position.y = -0.9;
+        const aimPoint = solveAimPoint(
+          camera,
+          colliders ?? null,
+          AIM_DISTANCE,
+          camera.position.distanceTo(playerGroup.position),
+          'player'
+        );
+        direction = aimPoint.sub(worldPosition).normalize();
+        tracerStart = worldPosition;
+      }
+      
+      effectBus.spawn('muzzleFlash', tracerStart, direction);
+
+      for (let i = 0; i < weapon.pellets; i++) {
+        const pelletDirection = applySpread(direction, weapon.spread, spreadRandom);
+        
+        if (weapon.hitscan) {
+          // 即时命中：射线判定并留下曳光
+          const result = resolveHitscan(worldPosition, pelletDirection, weapon.range, colliders ?? null, 'player');
+          if (result.targetHit) {
+            const event = damageRegistry.applyDamage(result.targetHit, weapon.damage, weapon.id);
+            gameStore.registerHit(event);
+            if (onHit) onHit(event);
+          }
+          if (result.normal) effectBus.spawn('impact', result.end, result.normal);
+          tracerPool.spawn(tracerStart, result.end, weapon.model.projectileColor);
+        } else {
+          // 添加子弹（霰弹枪一次发射多颗弹丸）
+          projectilePool.spawn({ 
+            position: worldPosition, 
+            direction: pelletDirection,
+            speed: weapon.projectileSpeed,
+            lifespan: weapon.projectileLifespan,
+            damage: weapon.damage,
+            weapon: weapon.id,
+            color: weapon.model.projectileColor
+          });
         }
       }
     }
+  };
+
+  useFixedFrame((_, dt) => {
+    const playerGroup = typeof playerRef !== 'function' ? playerRef.current : null;
+    if (playerGroup) simulate(playerGroup, dt);
+  }, ({ clock }, _, delta) => {
+    const playerGroup = typeof playerRef !== 'function' ? playerRef.current : null;
+    if (!playerGroup) return;
+    
+    // 受击指示淡出
+    hitIndicators.forEach((indicator, index) => {
+      indicator.life = Math.max(0, indicator.life - delta);
+      const element = hitIndicatorRefs.current[index];
+      if (!element) return;
+      element.style.opacity = String(indicator.life / HIT_INDICATOR_LIFE);
+      element.style.transform = `rotate(${indicator.angle}rad) translateY(-90px)`;
+    });
+    
+    // 模型跟随刚体位置（在最近两次回报之间插值，死亡时倒地）
+    physicsHistory.interpolate(playerGroup.position);
+    playerGroup.rotation.z = isDead.current ? Math.PI / 2 : 0;
+    if (isDead.current) playerGroup.position.y -= 0.9;
     
     // 更新角色旋转（鼠标控制）
-    playerGroup.rotation.y = rotationY;
+    playerGroup.rotation.y = controller.yaw;
     
-    // 第一人称模式下，相机仰角控制
-    if (isAiming) {
-      camera.rotation.x = rotationX;
-    } else {
-      // 第三人称模式下，相机围绕角色旋转
-      const targetPosition = playerGroup.position.clone();
-      
-      // 计算相机目标位置
-      const offset = new Vector3();
-      offset.x = Math.sin(rotationY) * cameraDistance;
-      offset.z = Math.cos(rotationY) * cameraDistance;
-      offset.y = cameraHeight + (isCrouching ? -crouchHeight/2 : 0);
-      
-      cameraTargetPosition.current.copy(targetPosition).add(offset);
-      
-      // 平滑相机移动
-      cameraCurrentPosition.current.lerp(cameraTargetPosition.current, cameraSmoothing.current);
-      camera.position.copy(cameraCurrentPosition.current);
-      
-      // 让相机始终看向角色
-      camera.lookAt(targetPosition);
+    // 相机由相机支架在角色之后更新，这里只写入跟随目标
+    const { target } = cameraRig;
+    target.position.copy(playerGroup.position);
+    target.yaw = controller.yaw;
+    target.pitch = controller.pitch;
+    target.crouching = isCrouching;
+    target.aiming = isAiming;
+    
+    if (crosshairAnchorRef.current) {
+      camera.getWorldDirection(crosshairAnchorRef.current.position);
+      crosshairAnchorRef.current.position.add(camera.position);
+    }
+    
+    // 命中反馈淡出
+    if (hitMarkerRef.current) {
+      const elapsed = gameStore.time - gameStore.getSnapshot().hitMarkerAt;
+      hitMarkerRef.current.style.opacity = String(Math.max(0, 1 - elapsed / HIT_MARKER_TIME));
     }
     
     if (gunRef.current) {
@@ -462,130 +787,45 @@ const Player = forwardRef<Group, PlayerProps>(({
       }
     }
     
-    if (recoilProgress > 0) {
-      const newRecoil = Math.max(0, recoilProgress - delta * 10);
-      setRecoilProgress(newRecoil);
+    if (controller.recoil > 0) {
+      // 按武器的后坐力曲线采样
+      const recoilAmount = sampleRecoil(weapon.recoil, 1 - controller.recoil);
       
       if (gunRef.current) {
-        const recoilAmount = Math.sin(recoilProgress * Math.PI) * 0.3;
-        gunRef.current.position.z = 0.2 - recoilAmount;
-        gunRef.current.rotation.x = MathUtils.degToRad(recoilAmount * 30);
+        gunRef.current.position.z = 0.2 - recoilAmount * weapon.recoil.kickBack;
+        gunRef.current.rotation.x = MathUtils.degToRad(recoilAmount * weapon.recoil.kickPitch);
       }
       
       if (fpsGunRef.current) {
-        const recoilAmount = Math.sin(recoilProgress * Math.PI) * 0.1;
-        fpsGunRef.current.position.y = 0.2 - recoilAmount;
-        fpsGunRef.current.rotation.x = MathUtils.degToRad(recoilAmount * 15);
-      }
-    }
-    
-    clockRef.current.move += delta;
-    const moveTime = clockRef.current.move;
-    
-    if (leftArmRef.current && rightArmRef.current) {
-      const armSwing = isMoving ? Math.sin(moveTime * 8) * 0.3 : 0;
-      leftArmRef.current.rotation.x = armSwing;
-      
-      // 修改持枪手臂的旋转角度，使其向上抬起
-      rightArmRef.current.rotation.x = -armSwing + 0.5;
-      rightArmRef.current.rotation.z = MathUtils.degToRad(-20);
-      
-      // 蹲下时调整手臂角度
-      if (isCrouching) {
-        leftArmRef.current.rotation.x = MathUtils.degToRad(-30);
-        rightArmRef.current.rotation.x = MathUtils.degToRad(-20);
-      }
-    }
-    
-    if (leftLegRef.current && rightLegRef.current) {
-      const legSwing = isMoving ? Math.sin(moveTime * 8) * 0.3 : 0;
-      leftLegRef.current.rotation.x = legSwing;
-      rightLegRef.current.rotation.x = -legSwing;
-      
-      // 蹲下时调整腿部角度
-      if (isCrouching) {
-        leftLegRef.current.rotation.x = MathUtils.degToRad(45);
-        rightLegRef.current.rotation.x = MathUtils.degToRad(45);
+        fpsGunRef.current.position.y = 0.2 - recoilAmount * weapon.recoil.kickBack / 3;
+        fpsGunRef.current.rotation.x = MathUtils.degToRad(recoilAmount * weapon.recoil.kickPitch / 6);
       }
     }
     
-    if (bodyRef.current) {
-      const floatAmount = isMoving ? Math.sin(moveTime * 8) * 0.02 : 0;
-      bodyRef.current.position.y = floatAmount;
-    }
+    // 推进后坐力计时
+    controller.update(delta);
     
-    // 更新子弹位置
-    setBullets((prev) =>
-      prev
-        .map((bullet) => {
-          // 在更新位置前检查碰撞
-          if (checkBulletCollision(bullet)) {
-            return null; // 标记为需要移除
-          }
-          
-          const newPos = bullet.position.clone().add(
-            bullet.direction.clone().multiplyScalar(bullet.velocity * delta)
-          );
-          
-          // 更新位置后再次检查碰撞（防止高速穿透）
-          const updatedBullet = {
-            ...bullet,
-            position: newPos,
-            lifespan: bullet.lifespan - delta
-          };
-          
-          if (checkBulletCollision(updatedBullet)) {
-            return null; // 标记为需要移除
-          }
-          
-          return updatedBullet;
-        })
-        .filter((bullet): bullet is Bullet => bullet !== null && bullet.lifespan > 0)
-    );
-    
-    // 处理连续射击
-    const currentTime = performance.now();
-    if (isFiring && currentTime - lastFireTime.current > fireRate) {
-      lastFireTime.current = currentTime;
-      setRecoilProgress(1);
-      
-      let worldPosition: Vector3;
-      let direction: Vector3;
-      
-      if (isAiming) {
-        // 第一人称：从相机位置发射，方向为相机前方
-        worldPosition = camera.position.clone();
-        direction = new Vector3(0, 0, -1);
-        direction.applyQuaternion(camera.quaternion);
-      } else {
-        // 第三人称：从枪口位置发射，方向为角色前方
-        worldPosition = new Vector3();
-        if (gunRef.current) {
-          gunRef.current.getWorldPosition(worldPosition);
-        } else {
-          worldPosition = camera.position.clone();
-        }
-        direction = getPlayerForward();
-      }
-
-      // 添加子弹
-      setBullets((prev) => [
-        ...prev, 
-        { 
-          id: bulletId.current++,
-          position: worldPosition.clone(), 
-          direction: direction.clone(),
-          velocity: 20,
-          lifespan: 1.5
-        }
-      ]);
+    // 按角色状态选择基础动画，落地、开火和换弹叠加在上面
+    const horizontalSpeed = Math.hypot(physicsVelocity.current.x, physicsVelocity.current.z);
+    if (isDead.current) {
+      animator.play('death');
+    } else if (!controller.isGrounded) {
+      animator.play('jump');
+    } else if (isCrouching) {
+      animator.play(controller.isMoving ? 'crouchWalk' : 'crouch');
+    } else if (controller.isMoving) {
+      animator.play(horizontalSpeed > RUN_SPEED ? 'run' : 'walk');
+    } else {
+      animator.play('idle');
     }
+    animator.update(delta);
+    animator.apply(bones);
   });
 
   return (
     <>
-      {/* 准星 - 只在瞄准或射击时显示 */}
-      {(isAiming || isFiring) && (
+      {/* 准星 - 屏幕中心即射击方向，锚点始终位于相机前方以免被判定在相机背后而隐藏 */}
+      <group ref={crosshairAnchorRef}>
         <Html center>
           <div style={{
             position: 'fixed',
@@ -628,206 +868,80 @@ const Player = forwardRef<Group, PlayerProps>(({
                 borderRadius: '50%',
                 transform: 'translate(-50%, -50%)'
               }}></div>
+              
+              {/* 命中反馈：准星外侧的斜线 */}
+              <div ref={hitMarkerRef} style={{ position: 'absolute', inset: 0, opacity: 0 }}>
+                {[45, 135, 225, 315].map((angle) => (
+                  <div key={angle} style={{
+                    position: 'absolute',
+                    top: '50%',
+                    left: '50%',
+                    width: '10px',
+                    height: '2px',
+                    marginLeft: '-5px',
+                    marginTop: '-1px',
+                    background: '#ffffff',
+                    transform: `rotate(${angle}deg) translateX(14px)`
+                  }}></div>
+                ))}
+              </div>
+              
+              {/* 受击方向指示 */}
+              {hitIndicators.map((_, index) => (
+                <div key={index} ref={(element) => { hitIndicatorRefs.current[index] = element; }} style={{
+                  position: 'absolute',
+                  top: '50%',
+                  left: '50%',
+                  width: '60px',
+                  height: '8px',
+                  marginLeft: '-30px',
+                  marginTop: '-4px',
+                  background: '#ff2222',
+                  borderRadius: '4px',
+                  boxShadow: '0 0 8px #ff0000',
+                  opacity: 0
+                }}></div>
+              ))}
             </div>
           </div>
         </Html>
-      )}
+      </group>
 
       {/* 第一人称视角下的枪模型 */}
       {isAiming && (
-        <group>
-          <mesh 
-            ref={fpsGunRef}
-            position={[0.4, -0.4, -1]}
-            rotation={[Math.PI / 8, 0, MathUtils.degToRad(-5)]}
-          >
-            <mesh position={[0.1, 0, 0]}>
-              <boxGeometry args={[0.7, 0.15, 0.05]} />
-              <meshStandardMaterial color="#444" />
-            </mesh>
-            
-            <mesh position={[0.45, 0, 0]}>
-              <cylinderGeometry args={[0.04, 0.04, 0.8, 8]} />
-              <meshStandardMaterial color="#555" />
-            </mesh>
-            
-            <mesh position={[-0.2, 0, 0]}>
-              <boxGeometry args={[0.2, 0.15, 0.1]} />
-              <meshStandardMaterial color="#333" />
-            </mesh>
-            
-            <mesh position={[0, -0.1, 0]}>
-              <boxGeometry args={[0.15, 0.15, 0.05]} />
-              <meshStandardMaterial color="#666" />
-            </mesh>
-            
-            <mesh position={[0.2, -0.05, 0]}>
-              <cylinderGeometry args={[0.05, 0.05, 0.06, 8]} />
-              <meshStandardMaterial color="#555" />
-            </mesh>
-            
-            {isFiring && (
-              <mesh position={[0.85, 0, 0]}>
-                <cylinderGeometry args={[0.1, 0.06, 0.4, 8, 1]} />
-                <meshStandardMaterial 
-                  color="#ff8800" 
-                  emissive="#ff5500" 
-                  emissiveIntensity={2} 
-                  transparent 
-                  opacity={0.7}
-                />
-              </mesh>
-            )}
-            
-            <group position={[-0.1, -0.1, 0.05]} rotation={[0, 0, MathUtils.degToRad(-20)]}>
-              <mesh position={[0, 0, 0]}>
-                <boxGeometry args={[0.15, 0.1, 0.15]} />
-                <meshStandardMaterial color="#f0c090" />
-              </mesh>
-              
-              <mesh position={[-0.08, 0.06, 0.05]} rotation={[0, 0, MathUtils.degToRad(25)]}>
-                <boxGeometry args={[0.05, 0.1, 0.05]} />
-                <meshStandardMaterial color="#f0c090" />
-              </mesh>
-              
-              <mesh position={[0.05, 0.06, 0.08]} rotation={[0, 0, MathUtils.degToRad(5)]}>
-                <boxGeometry args={[0.05, 0.12, 0.05]} />
-                <meshStandardMaterial color="#f0c090" />
-              </mesh>
-              
-              <mesh position={[0.05, 0.06, -0.02]} rotation={[0, 0, MathUtils.degToRad(5)]}>
-                <boxGeometry args={[0.05, 0.12, 0.05]} />
-                <meshStandardMaterial color="#f0c090" />
-              </mesh>
-            </group>
-          </mesh>
-        </group>
+        <WeaponModel
+          ref={fpsGunRef}
+          weapon={currentWeapon}
+          position={[0.4, -0.4, -1]}
+          rotation={[Math.PI / 8, 0, MathUtils.degToRad(-5)]}
+          hands
+        />
       )}
 
-      <group ref={playerRef} position={initialPosition.toArray()} visible={!isAiming}>
-        {/* 头部 */}
-        <mesh ref={headRef} position={[0, 0.9, 0]}>
-          <boxGeometry args={bodyParts.head} />
-          <meshStandardMaterial color="#6ca0c2" />
-          {/* 黑色面作为前方 */}
-          <mesh position={[0, 0, 0.41]}>
-            <planeGeometry args={[0.6, 0.6] as [number, number]} />
-            <meshStandardMaterial color="black" side={2} />
-          </mesh>
-          
-          {/* 蹲下时调整头部位置 */}
-          {isCrouching && (
-            <mesh position={[0, -0.3, 0]}>
-              <boxGeometry args={[0.8, 0.8, 0.8]} />
-              <meshStandardMaterial color="#6ca0c2" transparent opacity={0.3} />
-            </mesh>
-          )}
-        </mesh>
-
-        {/* 身体 */}
-        <mesh ref={bodyRef} position={[0, 0, 0]}>
-          <boxGeometry args={bodyParts.body} />
-          <meshStandardMaterial color="#3b7cb1" />
-          <mesh position={[0, -0.1, 0.21]}>
-            <boxGeometry args={[0.7, 0.3, 0.1] as BodyPartSize} />
-            <meshStandardMaterial color="#2d6a9a" />
-          </mesh>
-        </mesh>
-
-        {/* 左手臂 */}
-        <mesh ref={leftArmRef} position={[-0.6, 0, 0]}>
-          <boxGeometry args={bodyParts.arm} />
-          <meshStandardMaterial color="#6ca0c2" />
-        </mesh>
-
-        {/* 右手臂 - 持枪手臂 */}
-        <group position={[0.6, 0, 0]}>
-          <mesh ref={rightArmRef}>
-            <boxGeometry args={bodyParts.arm} />
-            <meshStandardMaterial color="#6ca0c2" />
-          </mesh>
-
-          <mesh 
-            ref={gunRef} 
-            position={[0.3, -0.7, 0.1]}
-            rotation={[0, Math.PI / 2, Math.PI / 2]}
-          >
-            <mesh position={[0.1, 0, 0]}>
-              <boxGeometry args={[0.7, 0.15, 0.05]} />
-              <meshStandardMaterial color="#444" />
-            </mesh>
-            
-            <mesh position={[0.45, 0, 0]}>
-              <cylinderGeometry args={[0.04, 0.04, 0.8, 8]} />
-              <meshStandardMaterial color="#555" />
-            </mesh>
-            
-            <mesh position={[-0.2, 0, 0]}>
-              <boxGeometry args={[0.2, 0.15, 0.1]} />
-              <meshStandardMaterial color="#333" />
-            </mesh>
-            
-            <mesh position={[0, -0.1, 0]}>
-              <boxGeometry args={[0.15, 0.15, 0.05]} />
-              <meshStandardMaterial color="#666" />
-            </mesh>
-            
-            <mesh position={[0.2, -0.05, 0]}>
-              <cylinderGeometry args={[0.05, 0.05, 0.06, 8]} />
-              <meshStandardMaterial color="#555" />
-            </mesh>
-            
-            {isFiring && !isAiming && (
-              <mesh position={[0.85, 0, 0]}>
-                <cylinderGeometry args={[0.1, 0.06, 0.4, 8, 1]} />
-                <meshStandardMaterial 
-                  color="#ff8800" 
-                  emissive="#ff5500" 
-                  emissiveIntensity={2} 
-                  transparent 
-                  opacity={0.7}
-                />
-              </mesh>
-            )}
-          </mesh>
-        </group>
-
-        {/* 左腿 */}
-        <mesh ref={leftLegRef} position={[-0.2, -0.9, 0]}>
-          <boxGeometry args={bodyParts.leg} />
-          <meshStandardMaterial color="#3b7cb1" />
-        </mesh>
-
-        {/* 右腿 */}
-        <mesh ref={rightLegRef} position={[0.2, -0.9, 0]}>
-          <boxGeometry args={bodyParts.leg} />
-          <meshStandardMaterial color="#3b7cb1" />
-        </mesh>
+      <group ref={playerRef} position={position} visible={!isAiming && cameraMode !== 'firstPerson'}>
+        {/* 受击判定中心 */}
+        <object3D ref={hitboxRef} />
+        
+        {/* 角色模型（glTF 缺失时为方块角色），武器挂在持枪手上 */}
+        <CharacterModel
+          asset="player"
+          bones={bones}
+          crouching={isCrouching}
+          weapon={
+            <WeaponModel
+              ref={gunRef}
+              muzzleRef={muzzleRef}
+              weapon={currentWeapon}
+              position={[0.3, -0.7, 0.1]}
+              rotation={[0, Math.PI / 2, Math.PI / 2]}
+            />
+          }
+        />
       </group>
 
-      {/* 渲染所有子弹 */}
-      {bullets.map((bullet) => (
-        <group key={bullet.id} position={bullet.position.toArray()}>
-          <mesh>
-            <sphereGeometry args={[0.05, 8, 8]} />
-            <meshStandardMaterial 
-              color="#ff0000" 
-              emissive="#ff5500" 
-              emissiveIntensity={1} 
-            />
-          </mesh>
-          <mesh position={bullet.direction.clone().multiplyScalar(-0.1).setY(0)}>
-            <cylinderGeometry args={[0.02, 0.02, 0.2, 8]} />
-            <meshStandardMaterial 
-              color="#ff8800" 
-              emissive="#ff5500" 
-              emissiveIntensity={1} 
-              transparent 
-              opacity={0.7}
-            />
-          </mesh>
-        </group>
-      ))}
+      {/* 渲染所有子弹和曳光 */}
+      <Projectiles pool={projectilePool} />
+      <Tracers pool={tracerPool} />
     </>
   );
 });
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { PlayerController } from './playerController';
+
+const NO_STICK = { x: 0, y: 0 };
+
+const createController = () => new PlayerController({
+  moveSpeed: 5,
+  crouchSpeedMultiplier: 0.5,
+  jumpSpeed: 8
+});
+
+describe('PlayerController.moveVelocity', () => {
+  it('偏航为0时向前移动朝 -Z', () => {
+    const controller = createController();
+    controller.press('moveForward');
+
+    const velocity = controller.moveVelocity(NO_STICK, new Vector3());
+    expect(velocity.x).toBeCloseTo(0);
+    expect(velocity.z).toBeCloseTo(-5);
+    expect(controller.isMoving).toBe(true);
+  });
+
+  it('偏航为0时向右平移朝 +X（键盘和摇杆）', () => {
+    const controller = createController();
+    controller.press('moveRight');
+    expect(controller.moveVelocity(NO_STICK, new Vector3()).x).toBeCloseTo(5);
+
+    controller.release('moveRight');
+    const velocity = controller.moveVelocity({ x: 1, y: 0 }, new Vector3());
+    expect(velocity.x).toBeCloseTo(5);
+    expect(velocity.z).toBeCloseTo(0);
+  });
+
+  it('斜向移动归一化，不会更快', () => {
+    const controller = createController();
+    controller.press('moveForward');
+    controller.press('moveLeft');
+
+    expect(controller.moveVelocity(NO_STICK, new Vector3()).length()).toBeCloseTo(5);
+  });
+
+  it('摇杆按推动幅度调节速度', () => {
+    const controller = createController();
+
+    const velocity = controller.moveVelocity({ x: 0, y: 0.5 }, new Vector3());
+    expect(velocity.z).toBeCloseTo(-2.5);
+    expect(controller.isMoving).toBe(true);
+  });
+
+  it('没有输入时停止', () => {
+    const controller = createController();
+
+    expect(controller.moveVelocity(NO_STICK, new Vector3()).lengthSq()).toBe(0);
+    expect(controller.isMoving).toBe(false);
+  });
+
+  it('随偏航转动移动方向', () => {
+    const controller = createController();
+    controller.look(Math.PI / 2, 0);
+    controller.press('moveForward');
+
+    const velocity = controller.moveVelocity(NO_STICK, new Vector3());
+    expect(velocity.x).toBeCloseTo(5);
+    expect(velocity.z).toBeCloseTo(0);
+  });
+});
+
+describe('PlayerController 蹲下', () => {
+  it('按住蹲下时减速，松开后恢复', () => {
+    const controller = createController();
+    controller.press('moveForward');
+    controller.press('crouch');
+
+    expect(controller.crouching).toBe(true);
+    expect(controller.moveVelocity(NO_STICK, new Vector3()).length()).toBeCloseTo(2.5);
+
+    controller.release('crouch');
+    expect(controller.crouching).toBe(false);
+    expect(controller.moveVelocity(NO_STICK, new Vector3()).length()).toBeCloseTo(5);
+  });
+
+  it('releaseAll 松开蹲下和起跳', () => {
+    const controller = createController();
+    controller.press('crouch');
+    controller.press('jump');
+
+    controller.releaseAll();
+    expect(controller.crouching).toBe(false);
+    expect(controller.jumpRequested).toBe(false);
+  });
+});
+
+describe('PlayerController.verticalVelocity', () => {
+  it('落地时起跳并离地', () => {
+    const controller = createController();
+    controller.isGrounded = true;
+    controller.press('jump');
+
+    expect(controller.verticalVelocity(0)).toBe(8);
+    expect(controller.isGrounded).toBe(false);
+    expect(controller.jumpRequested).toBe(false);
+  });
+
+  it('空中按跳跃无效，且不会留到落地后', () => {
+    const controller = createController();
+    controller.press('jump');
+
+    expect(controller.verticalVelocity(-3)).toBe(-3);
+    controller.isGrounded = true;
+    expect(controller.verticalVelocity(0)).toBe(0);
+  });
+
+  it('竖直速度较大时视为离地', () => {
+    const controller = createController();
+    controller.isGrounded = true;
+
+    controller.verticalVelocity(0.2);
+    expect(controller.isGrounded).toBe(true);
+    controller.verticalVelocity(-2);
+    expect(controller.isGrounded).toBe(false);
+  });
+});
+
+describe('PlayerController.land', () => {
+  it('滞空时记录最大下落速度，落地时返回一次', () => {
+    const controller = createController();
+
+    expect(controller.land(-4)).toBe(0);
+    expect(controller.land(-10)).toBe(0);
+    expect(controller.land(-6)).toBe(0);
+
+    controller.isGrounded = true;
+    expect(controller.land(0)).toBe(10);
+    expect(controller.land(0)).toBe(0);
+  });
+});
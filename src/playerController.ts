@@ -0,0 +1,147 @@
+import { MathUtils, Vector3 } from 'three';
+import type { InputAction } from './input';
+
+// 角色控制器：输入、运动和后坐力状态都保存在这里，逐帧原地更新，不触发 React 渲染
+// 只依赖向量运算，不需要画布或物理世界即可单独测试
+
+// 按住生效的动作
+type HeldAction = 'moveForward' | 'moveBackward' | 'moveLeft' | 'moveRight' | 'jump' | 'crouch';
+
+const HELD_ACTIONS: HeldAction[] = ['moveForward', 'moveBackward', 'moveLeft', 'moveRight', 'jump', 'crouch'];
+
+export interface PlayerControllerOptions {
+  moveSpeed: number; // 移动速度（单位/秒）
+  crouchSpeedMultiplier: number; // 蹲下时的速度倍率
+  jumpSpeed: number; // 起跳速度
+}
+
+export const CROUCH_HEIGHT = 0.5; // 蹲下时的高度减少量
+const AIRBORNE_SPEED = 0.5; // 竖直速度超过此值视为离地
+
+const up = new Vector3(0, 1, 0);
+const forward = new Vector3();
+const right = new Vector3();
+
+export class PlayerController {
+  readonly options: PlayerControllerOptions;
+
+  // 输入
+  readonly held = Object.fromEntries(HELD_ACTIONS.map((action) => [action, false])) as Record<HeldAction, boolean>;
+  firing = false;
+  shotFiredThisPress = false; // 半自动武器每次按下只射击一次
+  jumpRequested = false; // 落地时才会生效
+
+  // 朝向（偏航绕 Y 轴，俯仰向上为正）
+  yaw = 0;
+  pitch = 0;
+
+  // 运动
+  isGrounded = false;
+  isMoving = false;
+  fallSpeed = 0; // 本次滞空中的最大下落速度
+
+  // 后坐力
+  recoil = 0; // 后坐力动画剩余进度，1 为刚开火
+  private recoilDuration = 1;
+
+  constructor(options: PlayerControllerOptions) {
+    this.options = options;
+  }
+
+  get crouching() {
+    return this.held.crouch;
+  }
+
+  // 按住类动作，返回是否由控制器处理
+  press(action: InputAction) {
+    if (!(HELD_ACTIONS as string[]).includes(action)) return false;
+    this.held[action as HeldAction] = true;
+    if (action === 'jump') this.jumpRequested = true;
+    return true;
+  }
+
+  release(action: InputAction) {
+    if (!(HELD_ACTIONS as string[]).includes(action)) return false;
+    this.held[action as HeldAction] = false;
+    return true;
+  }
+
+  // 松开所有按住的动作（死亡、失去焦点时）
+  releaseAll() {
+    HELD_ACTIONS.forEach((action) => {
+      this.held[action] = false;
+    });
+    this.firing = false;
+    this.shotFiredThisPress = false;
+    this.jumpRequested = false;
+  }
+
+  // 转动视角（弧度），俯仰限制在竖直范围内
+  look(yawDelta: number, pitchDelta: number) {
+    this.yaw -= yawDelta;
+    this.pitch = MathUtils.clamp(this.pitch + pitchDelta, -Math.PI / 2, Math.PI / 2);
+  }
+
+  // 角色前方和右方的水平方向
+  getForward(target: Vector3) {
+    return target.set(-Math.sin(this.yaw), 0, -Math.cos(this.yaw));
+  }
+
+  // 本步的水平速度：键盘方向归一化，摇杆按推动幅度调节速度
+  moveVelocity(stick: { x: number; y: number }, target: Vector3) {
+    const { held, options } = this;
+    const speed = this.crouching ? options.moveSpeed * options.crouchSpeedMultiplier : options.moveSpeed;
+
+    this.getForward(forward);
+    right.crossVectors(forward, up).normalize();
+
+    target.set(0, 0, 0);
+    if (held.moveForward) target.add(forward);
+    if (held.moveBackward) target.sub(forward);
+    if (held.moveLeft) target.sub(right);
+    if (held.moveRight) target.add(right);
+
+    this.isMoving = held.moveForward || held.moveBackward || held.moveLeft || held.moveRight
+      || stick.x !== 0 || stick.y !== 0;
+
+    if (target.lengthSq() > 0) {
+      target.normalize();
+    } else if (stick.x !== 0 || stick.y !== 0) {
+      target.addScaledVector(forward, stick.y).addScaledVector(right, stick.x);
+      if (target.lengthSq() > 1) target.normalize();
+    }
+    return target.multiplyScalar(speed);
+  }
+
+  // 本步的竖直速度：离地（下落或上升）后取消落地状态，落地时才能起跳
+  verticalVelocity(current: number) {
+    if (Math.abs(current) > AIRBORNE_SPEED) this.isGrounded = false;
+
+    if (!this.jumpRequested) return current;
+    this.jumpRequested = false;
+    if (!this.isGrounded) return current;
+    this.isGrounded = false;
+    return this.options.jumpSpeed;
+  }
+
+  // 记录滞空时的最大下落速度；落地时返回该速度并清零，其余时候返回 0
+  land(verticalVelocity: number) {
+    if (!this.isGrounded) {
+      this.fallSpeed = Math.max(this.fallSpeed, -verticalVelocity);
+      return 0;
+    }
+    const impact = this.fallSpeed;
+    this.fallSpeed = 0;
+    return impact;
+  }
+
+  fireRecoil(duration: number) {
+    this.recoil = 1;
+    this.recoilDuration = duration;
+  }
+
+  // 推进后坐力计时
+  update(delta: number) {
+    this.recoil = Math.max(0, this.recoil - delta / this.recoilDuration);
+  }
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// 封装 Pointer Lock API：锁定后鼠标隐藏，mousemove 事件提供原始的 movementX/Y
+export const usePointerLock = (element: HTMLElement) => {
+  const [isLocked, setIsLocked] = useState(false);
+
+  useEffect(() => {
+    const handleChange = () => setIsLocked(document.pointerLockElement === element);
+    const handleError = () => setIsLocked(false);
+
+    document.addEventListener('pointerlockchange', handleChange);
+    document.addEventListener('pointerlockerror', handleError);
+
+    return () => {
+      document.removeEventListener('pointerlockchange', handleChange);
+      document.removeEventListener('pointerlockerror', handleError);
+      if (document.pointerLockElement === element) document.exitPointerLock();
+    };
+  }, [element]);
+
+  const requestLock = useCallback(() => {
+    if (document.pointerLockElement !== element) {
+      // 部分浏览器在短时间内重复请求会返回被拒绝的 Promise
+      Promise.resolve(element.requestPointerLock()).catch(() => setIsLocked(false));
+    }
+  }, [element]);
+
+  const releaseLock = useCallback(() => {
+    if (document.pointerLockElement === element) document.exitPointerLock();
+  }, [element]);
+
+  return { isLocked, requestLock, releaseLock };
+};
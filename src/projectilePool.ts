@@ -0,0 +1,115 @@
+import { Color, Vector3 } from 'three';
+
+export interface ProjectileSpawn {
+  position: Vector3;
+  direction: Vector3; // 单位向量
+  speed: number;
+  lifespan: number; // 存活时间（秒）
+  damage: number;
+  weapon: string;
+  color: string;
+}
+
+// 碰撞回调中使用的只读视图，每次回调复用同一个对象，不要在回调外保存
+export interface ProjectileView {
+  index: number;
+  from: Vector3;
+  to: Vector3;
+  direction: Vector3;
+  damage: number;
+  weapon: string;
+}
+
+const tempColor = new Color();
+
+// 固定容量的弹丸池：数据保存在连续的类型化数组中，在 React 之外逐帧更新
+// 活跃弹丸始终紧凑排列在 [0, count)，移除时与末尾交换，便于 InstancedMesh 直接按 count 绘制
+export class ProjectilePool {
+  readonly capacity: number;
+  count = 0;
+
+  readonly positions: Float32Array;
+  readonly directions: Float32Array;
+  readonly colors: Float32Array;
+  readonly speeds: Float32Array;
+  readonly lifespans: Float32Array;
+  readonly damages: Float32Array;
+  readonly weapons: string[];
+
+  private view: ProjectileView = {
+    index: 0,
+    from: new Vector3(),
+    to: new Vector3(),
+    direction: new Vector3(),
+    damage: 0,
+    weapon: ''
+  };
+
+  constructor(capacity: number) {
+    this.capacity = capacity;
+    this.positions = new Float32Array(capacity * 3);
+    this.directions = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 3);
+    this.speeds = new Float32Array(capacity);
+    this.lifespans = new Float32Array(capacity);
+    this.damages = new Float32Array(capacity);
+    this.weapons = new Array<string>(capacity).fill('');
+  }
+
+  // 池满时丢弃新弹丸，返回是否成功
+  spawn({ position, direction, speed, lifespan, damage, weapon, color }: ProjectileSpawn) {
+    if (this.count >= this.capacity) return false;
+
+    const i = this.count++;
+    position.toArray(this.positions, i * 3);
+    direction.toArray(this.directions, i * 3);
+    tempColor.set(color).toArray(this.colors, i * 3);
+    this.speeds[i] = speed;
+    this.lifespans[i] = lifespan;
+    this.damages[i] = damage;
+    this.weapons[i] = weapon;
+    return true;
+  }
+
+  // 推进所有弹丸；collide 返回 true 时移除该弹丸
+  update(delta: number, collide?: (projectile: ProjectileView) => boolean) {
+    const { view } = this;
+
+    for (let i = this.count - 1; i >= 0; i--) {
+      const i3 = i * 3;
+      this.lifespans[i] -= delta;
+
+      view.index = i;
+      view.from.fromArray(this.positions, i3);
+      view.direction.fromArray(this.directions, i3);
+      view.to.copy(view.from).addScaledVector(view.direction, this.speeds[i] * delta);
+      view.damage = this.damages[i];
+      view.weapon = this.weapons[i];
+
+      if ((collide && collide(view)) || this.lifespans[i] <= 0) {
+        this.remove(i);
+        continue;
+      }
+
+      view.to.toArray(this.positions, i3);
+    }
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  // 与末尾元素交换后移除
+  private remove(i: number) {
+    const last = --this.count;
+    if (i === last) return;
+
+    this.positions.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.directions.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.colors.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.speeds[i] = this.speeds[last];
+    this.lifespans[i] = this.lifespans[last];
+    this.damages[i] = this.damages[last];
+    this.weapons[i] = this.weapons[last];
+  }
+}
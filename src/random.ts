@@ -0,0 +1,83 @@
+// 可设定种子的伪随机数：所有程序化生成都通过这里取随机数，同一种子总是得到相同的世界
+
+// 字符串哈希（FNV-1a），把种子和用途名转换为32位整数
+export const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32 随机序列
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // [0, 1) 的均匀分布，可替代 Math.random()
+  next = () => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  range(min: number, max: number) {
+    return min + this.next() * (max - min);
+  }
+
+  // [-range/2, range/2)，可替代 MathUtils.randFloatSpread
+  spread(range: number) {
+    return (this.next() - 0.5) * range;
+  }
+
+  // [min, max) 的整数
+  int(min: number, max: number) {
+    return Math.floor(this.range(min, max));
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  chance(probability: number) {
+    return this.next() < probability;
+  }
+}
+
+// 由种子和用途名得到独立的随机序列，不同用途之间互不影响
+export const createStream = (seed: string, name: string) => new Random(hashString(`${seed}:${name}`));
+
+// 生成新种子（唯一允许使用 Math.random 的地方）
+export const createSeed = () => Math.floor(Math.random() * 0x100000000).toString(36);
+
+// 初始种子：地址栏 ?seed= 指定，未指定时随机生成
+export const getInitialSeed = () => new URLSearchParams(window.location.search).get('seed') || createSeed();
+
+// 全局随机数服务：组件挂载时按用途名取得随机序列，序列只取决于种子和用途名，与挂载顺序无关
+class RandomService {
+  private currentSeed: string;
+
+  constructor(seed: string) {
+    this.currentSeed = seed;
+  }
+
+  get seed() {
+    return this.currentSeed;
+  }
+
+  setSeed(seed: string) {
+    this.currentSeed = seed;
+  }
+
+  stream(name: string) {
+    return createStream(this.currentSeed, name);
+  }
+}
+
+export const random = new RandomService(getInitialSeed());
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { Vector3 } from 'three';
+import { TracerPool } from './tracerPool';
+
+const origin = new Vector3();
+
+describe('TracerPool', () => {
+  it('到期的曳光被移除，其余保持紧凑排列', () => {
+    const pool = new TracerPool(4, 0.1);
+    pool.spawn(origin, new Vector3(1, 0, 0), '#ff0000');
+    pool.update(0.05);
+    pool.spawn(origin, new Vector3(2, 0, 0), '#00ff00');
+
+    pool.update(0.06);
+    expect(pool.count).toBe(1);
+    expect(pool.ends[0]).toBe(2);
+  });
+
+  it('池满时替换剩余时间最短的曳光', () => {
+    const pool = new TracerPool(2, 0.1);
+    pool.spawn(origin, new Vector3(1, 0, 0), '#ffffff');
+    pool.update(0.05);
+    pool.spawn(origin, new Vector3(2, 0, 0), '#ffffff');
+    pool.spawn(origin, new Vector3(3, 0, 0), '#ffffff');
+
+    expect(pool.count).toBe(2);
+    expect([pool.ends[0], pool.ends[3]]).toEqual([3, 2]);
+  });
+});
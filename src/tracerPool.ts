@@ -0,0 +1,62 @@
+import { Color, Vector3 } from 'three';
+
+const tempColor = new Color();
+
+// 固定容量的曳光池：即时命中武器留下的线段，在 React 之外写入并逐帧淡出
+// 与弹丸池相同，活跃曳光紧凑排列在 [0, count)，移除时与末尾交换
+export class TracerPool {
+  readonly capacity: number;
+  readonly life: number; // 曳光持续时间（秒）
+  count = 0;
+
+  readonly starts: Float32Array;
+  readonly ends: Float32Array;
+  readonly colors: Float32Array;
+  readonly lives: Float32Array; // 剩余时间（秒）
+
+  constructor(capacity: number, life: number) {
+    this.capacity = capacity;
+    this.life = life;
+    this.starts = new Float32Array(capacity * 3);
+    this.ends = new Float32Array(capacity * 3);
+    this.colors = new Float32Array(capacity * 3);
+    this.lives = new Float32Array(capacity);
+  }
+
+  // 池满时替换剩余时间最短的曳光
+  spawn(start: Vector3, end: Vector3, color: string) {
+    let i = this.count;
+    if (i < this.capacity) {
+      this.count++;
+    } else {
+      i = this.lives.indexOf(Math.min(...this.lives));
+    }
+
+    start.toArray(this.starts, i * 3);
+    end.toArray(this.ends, i * 3);
+    tempColor.set(color).toArray(this.colors, i * 3);
+    this.lives[i] = this.life;
+  }
+
+  update(delta: number) {
+    for (let i = this.count - 1; i >= 0; i--) {
+      this.lives[i] -= delta;
+      if (this.lives[i] <= 0) this.remove(i);
+    }
+  }
+
+  clear() {
+    this.count = 0;
+  }
+
+  // 与末尾元素交换后移除
+  private remove(i: number) {
+    const last = --this.count;
+    if (i === last) return;
+
+    this.starts.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.ends.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.colors.copyWithin(i * 3, last * 3, last * 3 + 3);
+    this.lives[i] = this.lives[last];
+  }
+}
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_TUNING, tuningStore } from './tuning';
+
+const importPreset = (preset: unknown) => tuningStore.importJson(JSON.stringify(preset));
+
+describe('tuningStore.importJson', () => {
+  beforeEach(() => {
+    tuningStore.reset();
+  });
+
+  it('缺失的部分使用默认值，超出范围的数值截断到滑块范围', () => {
+    importPreset({ bloom: { intensity: 99, radius: -1 }, emitters: { 'stars-0': { count: 1e9, backend: 'cpu' } } });
+
+    const preset = tuningStore.getSnapshot();
+    expect(preset.lights).toEqual(DEFAULT_TUNING.lights);
+    expect(preset.bloom.intensity).toBe(5);
+    expect(preset.bloom.radius).toBe(0);
+    expect(preset.emitters['stars-0']).toEqual({ count: 200000, backend: 'cpu' });
+  });
+
+  it.each([
+    ['非数值字段', { bloom: { intensity: '2' } }],
+    ['未知字段', { lights: { brightness: 1 } }],
+    ['无效的阴影贴图尺寸', { lights: { shadowMapSize: 300 } }],
+    ['未知的发射器类型', { emitters: { 'rain-0': { count: 10 } } }],
+    ['无效的模拟后端', { emitters: { 'stars-0': { backend: 'webgl' } } }],
+    ['分组不是对象', { bloom: [1, 2] }]
+  ])('拒绝%s并保持当前参数', (_, preset) => {
+    expect(() => importPreset(preset)).toThrow('预设必须是 JSON 对象');
+    expect(tuningStore.getSnapshot()).toBe(DEFAULT_TUNING);
+  });
+});
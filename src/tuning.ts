@@ -0,0 +1,205 @@
+import { useSyncExternalStore } from 'react';
+import { MathUtils } from 'three';
+import type { EmitterData } from './level';
+
+// 调试面板可调的场景参数，可导出/导入为 JSON 预设
+
+export interface LightSettings {
+  ambientIntensity: number;
+  directionalIntensity: number;
+  shadowMapSize: number | null; // 方向光阴影贴图边长（像素），null 时跟随画质设置
+}
+
+export interface BloomSettings {
+  intensity: number;
+  radius: number;
+  luminanceThreshold: number;
+  luminanceSmoothing: number;
+}
+
+// 单个发射器的参数覆盖：字段名 -> 数值（backend 为字符串）
+export type EmitterOverrides = Record<string, number | string>;
+
+export interface TuningPreset {
+  lights: LightSettings;
+  bloom: BloomSettings;
+  emitters: Record<string, EmitterOverrides>; // 按发射器键（类型-序号）索引，不同关卡间同类发射器共用
+}
+
+// 可调字段的滑块范围
+export interface TuningField {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const DEFAULT_TUNING: TuningPreset = {
+  lights: {
+    ambientIntensity: 0.6,
+    directionalIntensity: 0.8,
+    shadowMapSize: null
+  },
+  bloom: {
+    intensity: 1.5,
+    radius: 0.4,
+    luminanceThreshold: 0.85,
+    luminanceSmoothing: 0.1
+  },
+  emitters: {}
+};
+
+export const LIGHT_FIELDS: TuningField[] = [
+  { key: 'ambientIntensity', label: '环境光强度', min: 0, max: 3, step: 0.05 },
+  { key: 'directionalIntensity', label: '方向光强度', min: 0, max: 5, step: 0.05 }
+];
+
+export const SHADOW_MAP_SIZES = [512, 1024, 2048, 4096];
+
+export const BLOOM_FIELDS: TuningField[] = [
+  { key: 'intensity', label: '强度', min: 0, max: 5, step: 0.05 },
+  { key: 'radius', label: '半径', min: 0, max: 1, step: 0.01 },
+  { key: 'luminanceThreshold', label: '亮度阈值', min: 0, max: 1, step: 0.01 },
+  { key: 'luminanceSmoothing', label: '阈值平滑', min: 0, max: 1, step: 0.01 }
+];
+
+// 各类发射器可调的字段（自定义发射器调整其粒子配置）
+export const EMITTER_FIELDS: Record<EmitterData['type'], TuningField[]> = {
+  stars: [
+    { key: 'count', label: '数量', min: 0, max: 200000, step: 500 },
+    { key: 'size', label: '大小', min: 0.05, max: 3, step: 0.05 },
+    { key: 'rotationSpeed', label: '转速', min: 0, max: 0.002, step: 0.0001 },
+    { key: 'spread', label: '范围', min: 10, max: 600, step: 10 }
+  ],
+  waterfall: [
+    { key: 'count', label: '数量', min: 0, max: 300000, step: 500 },
+    { key: 'size', label: '大小', min: 0.05, max: 5, step: 0.05 },
+    { key: 'speed', label: '速度', min: 0.01, max: 2, step: 0.01 },
+    { key: 'spread', label: '宽度', min: 0, max: 50, step: 0.5 },
+    { key: 'height', label: '高度', min: 1, max: 60, step: 1 }
+  ],
+  fountain: [
+    { key: 'count', label: '数量', min: 0, max: 300000, step: 500 },
+    { key: 'size', label: '大小', min: 0.05, max: 5, step: 0.05 },
+    { key: 'power', label: '力度', min: 0.05, max: 3, step: 0.05 },
+    { key: 'height', label: '高度', min: 1, max: 60, step: 1 }
+  ],
+  custom: [
+    { key: 'maxParticles', label: '最大数量', min: 0, max: 300000, step: 100 },
+    { key: 'rate', label: '发射速率', min: 0, max: 100000, step: 10 },
+    { key: 'gravity', label: '重力', min: -60, max: 60, step: 0.5 },
+    { key: 'drag', label: '阻力', min: 0, max: 10, step: 0.1 },
+    { key: 'spin', label: '旋转', min: -2, max: 2, step: 0.01 }
+  ]
+};
+
+// 发射器在预设中的键，与其随机序列名一致
+export const emitterKey = (emitter: EmitterData, index: number) => `${emitter.type}-${index}`;
+
+// 应用参数覆盖：内置发射器覆盖自身字段，自定义发射器覆盖其粒子配置
+export const applyEmitterOverrides = (emitter: EmitterData, overrides?: EmitterOverrides): EmitterData => {
+  if (!overrides) return emitter;
+  if (emitter.type === 'custom') return { ...emitter, config: { ...emitter.config, ...overrides } };
+  return { ...emitter, ...overrides };
+};
+
+const INVALID_PRESET = '预设必须是 JSON 对象';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// 读取一组滑块字段：只接受已知字段的有限数值，超出滑块范围的截断到范围内
+const readFields = (source: unknown, fields: TuningField[], extra: Record<string, (value: unknown) => boolean> = {}) => {
+  if (source === undefined) return {};
+  if (!isRecord(source)) throw new Error(INVALID_PRESET);
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source)) {
+    const field = fields.find((f) => f.key === key);
+    if (field && typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = MathUtils.clamp(value, field.min, field.max);
+    } else if (extra[key]?.(value)) {
+      result[key] = value;
+    } else {
+      throw new Error(INVALID_PRESET);
+    }
+  }
+  return result;
+};
+
+const isShadowMapSize = (value: unknown) => value === null || SHADOW_MAP_SIZES.includes(value as number);
+const isBackend = (value: unknown) => value === 'cpu' || value === 'gpu';
+
+// 发射器覆盖按键名中的类型校验字段
+const readEmitters = (source: unknown) => {
+  if (source === undefined) return {};
+  if (!isRecord(source)) throw new Error(INVALID_PRESET);
+
+  const emitters: Record<string, EmitterOverrides> = {};
+  for (const [key, overrides] of Object.entries(source)) {
+    const type = key.slice(0, key.lastIndexOf('-'));
+    if (!(type in EMITTER_FIELDS)) throw new Error(INVALID_PRESET);
+    emitters[key] = readFields(overrides, EMITTER_FIELDS[type as EmitterData['type']], { backend: isBackend }) as EmitterOverrides;
+  }
+  return emitters;
+};
+
+// 校验导入的预设：数值截断到滑块范围，无法识别的字段或类型直接拒绝；缺失的部分使用默认值补齐
+const normalizePreset = (preset: Record<string, unknown>): TuningPreset => ({
+  lights: { ...DEFAULT_TUNING.lights, ...readFields(preset.lights, LIGHT_FIELDS, { shadowMapSize: isShadowMapSize }) },
+  bloom: { ...DEFAULT_TUNING.bloom, ...readFields(preset.bloom, BLOOM_FIELDS) },
+  emitters: readEmitters(preset.emitters)
+});
+
+// 调试参数存储：面板修改后通知场景重新渲染
+class TuningStore {
+  private preset = DEFAULT_TUNING;
+  private listeners = new Set<() => void>();
+
+  getSnapshot = () => this.preset;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  setLights(lights: Partial<LightSettings>) {
+    this.update({ ...this.preset, lights: { ...this.preset.lights, ...lights } });
+  }
+
+  setBloom(bloom: Partial<BloomSettings>) {
+    this.update({ ...this.preset, bloom: { ...this.preset.bloom, ...bloom } });
+  }
+
+  setEmitter(key: string, overrides: EmitterOverrides) {
+    const emitters = { ...this.preset.emitters, [key]: { ...this.preset.emitters[key], ...overrides } };
+    this.update({ ...this.preset, emitters });
+  }
+
+  reset() {
+    this.update(DEFAULT_TUNING);
+  }
+
+  exportJson() {
+    return JSON.stringify(this.preset, null, 2);
+  }
+
+  // 导入 JSON 预设，格式错误时抛出异常并保持当前参数
+  importJson(json: string) {
+    const parsed: unknown = JSON.parse(json);
+    if (!isRecord(parsed)) throw new Error(INVALID_PRESET);
+    this.update(normalizePreset(parsed));
+  }
+
+  private update(next: TuningPreset) {
+    this.preset = next;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const tuningStore = new TuningStore();
+
+export const useTuning = () => useSyncExternalStore(tuningStore.subscribe, tuningStore.getSnapshot);
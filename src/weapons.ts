@@ -0,0 +1,153 @@
+import { MathUtils, Vector3 } from 'three';
+import type { Random } from './random';
+
+export type WeaponId = 'pistol' | 'shotgun' | 'rifle';
+
+// 后坐力曲线：curve 为 0~1 时间内均匀采样的强度值
+export interface RecoilCurve {
+  duration: number; // 后坐力动画时长（秒）
+  kickBack: number; // 枪身后移距离
+  kickPitch: number; // 枪身上抬角度（度）
+  cameraKick: number; // 每次射击视角上抬（度）
+  curve: number[];
+}
+
+// 枪械外观参数，第三人称和第一人称模型共用
+export interface WeaponModelSpec {
+  bodyLength: number;
+  barrelLength: number;
+  barrelRadius: number;
+  stockLength: number; // 0 表示没有枪托
+  bodyColor: string;
+  barrelColor: string;
+  projectileColor: string;
+}
+
+export interface WeaponDefinition {
+  id: WeaponId;
+  name: string; // 显示名称
+  automatic: boolean; // 按住是否连发
+  fireRate: number; // 两次射击最小间隔（毫秒）
+  damage: number; // 每颗弹丸伤害
+  spread: number; // 散布角（度）
+  projectileSpeed: number;
+  projectileLifespan: number; // 弹丸存活时间（秒）
+  pellets: number; // 每次射击的弹丸数
+  hitscan: boolean; // 即时命中（不生成弹丸，直接射线判定并绘制曳光）
+  range: number; // 即时命中武器的最大射程
+  magazineSize: number;
+  reloadTime: number; // 换弹时间（秒）
+  recoil: RecoilCurve;
+  model: WeaponModelSpec;
+}
+
+export const WEAPONS: Record<WeaponId, WeaponDefinition> = {
+  pistol: {
+    id: 'pistol',
+    name: '手枪',
+    automatic: false,
+    fireRate: 250,
+    damage: 18,
+    spread: 1,
+    projectileSpeed: 25,
+    projectileLifespan: 1.5,
+    pellets: 1,
+    hitscan: false,
+    range: 60,
+    magazineSize: 12,
+    reloadTime: 1.2,
+    recoil: { duration: 0.15, kickBack: 0.2, kickPitch: 6, cameraKick: 1, curve: [0, 1, 0.4, 0] },
+    model: {
+      bodyLength: 0.35,
+      barrelLength: 0.3,
+      barrelRadius: 0.035,
+      stockLength: 0,
+      bodyColor: '#3a3a3a',
+      barrelColor: '#777',
+      projectileColor: '#ffdd00'
+    }
+  },
+  shotgun: {
+    id: 'shotgun',
+    name: '霰弹枪',
+    automatic: false,
+    fireRate: 800,
+    damage: 9,
+    spread: 8,
+    projectileSpeed: 18,
+    projectileLifespan: 0.6,
+    pellets: 8,
+    hitscan: false,
+    range: 30,
+    magazineSize: 6,
+    reloadTime: 2.2,
+    recoil: { duration: 0.35, kickBack: 0.45, kickPitch: 20, cameraKick: 4, curve: [0, 1, 0.8, 0.4, 0.1, 0] },
+    model: {
+      bodyLength: 0.6,
+      barrelLength: 0.9,
+      barrelRadius: 0.06,
+      stockLength: 0.3,
+      bodyColor: '#5a3a22',
+      barrelColor: '#444',
+      projectileColor: '#ff8800'
+    }
+  },
+  rifle: {
+    id: 'rifle',
+    name: '步枪',
+    automatic: true,
+    fireRate: 100,
+    damage: 10,
+    spread: 2,
+    projectileSpeed: 20,
+    projectileLifespan: 1.5,
+    pellets: 1,
+    hitscan: true,
+    range: 120,
+    magazineSize: 30,
+    reloadTime: 1.8,
+    recoil: { duration: 0.1, kickBack: 0.3, kickPitch: 9, cameraKick: 0.4, curve: [0, 1, 0] },
+    model: {
+      bodyLength: 0.7,
+      barrelLength: 0.8,
+      barrelRadius: 0.04,
+      stockLength: 0.2,
+      bodyColor: '#444',
+      barrelColor: '#555',
+      projectileColor: '#ff0000'
+    }
+  }
+};
+
+// 数字键 1/2/3 及滚轮切换的顺序
+export const WEAPON_ORDER: WeaponId[] = ['pistol', 'shotgun', 'rifle'];
+
+// 按归一化时间 t (0~1) 线性插值采样后坐力曲线
+export const sampleRecoil = (recoil: RecoilCurve, t: number) => {
+  const { curve } = recoil;
+  if (curve.length === 0) return 0;
+  if (curve.length === 1) return curve[0];
+
+  const position = MathUtils.clamp(t, 0, 1) * (curve.length - 1);
+  const index = Math.min(Math.floor(position), curve.length - 2);
+  return MathUtils.lerp(curve[index], curve[index + 1], position - index);
+};
+
+// 在锥形范围内随机偏转射击方向
+export const applySpread = (direction: Vector3, spreadDegrees: number, rng: Random) => {
+  if (spreadDegrees <= 0) return direction.clone();
+
+  const spread = MathUtils.degToRad(spreadDegrees);
+  const up = Math.abs(direction.y) > 0.99 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0);
+  const right = new Vector3().crossVectors(direction, up).normalize();
+  const realUp = new Vector3().crossVectors(right, direction).normalize();
+
+  // 在圆盘内均匀取点
+  const angle = rng.next() * Math.PI * 2;
+  const radius = Math.sqrt(rng.next()) * Math.tan(spread);
+
+  return direction.clone()
+    .addScaledVector(right, Math.cos(angle) * radius)
+    .addScaledVector(realUp, Math.sin(angle) * radius)
+    .normalize();
+};